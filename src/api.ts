@@ -3,10 +3,17 @@ import { BestMatchLoader, DataLoaderFactory, ManyJoinedLoader, OneToManyLoader,
 import type { FastifyRequest } from 'fastify'
 import { SignJWT } from 'jose'
 import { Cache, ensureString, groupby, isBlank, isNotBlank, keyby, pick, stringify, titleCase } from 'txstate-utils'
+import { createNonce, policyUsesNonce } from './csp.js'
+import { graphqlHistogram, operationName, templateCacheCounter } from './metrics.js'
+import { defaultLinkPolicy, type LinkKind, type LinkPolicy, mergeLinkPolicy } from './richtext.js'
 import { jwtSignKey, resolvePath, shiftPath } from './util.js'
 import { schemaversion } from './version.js'
 import { HttpError } from 'fastify-txstate'
+import { AsyncLocalStorage } from 'node:async_hooks'
 import type { IncomingHttpHeaders } from 'node:http'
+import { performance } from 'node:perf_hooks'
+import { RenderTiming } from './timing.js'
+import { traceHeaders, withSpan } from './tracing.js'
 
 const SITE_INFO = 'site { id name launched url { path prefix } }'
 
@@ -66,6 +73,60 @@ query getPreviewPage ($schemaversion: DateTime!, $path: UrlSafePath!, $published
 }
 `
 
+const PAGE_VERSIONS_QUERY = `
+query getPageVersions ($path: UrlSafePath!) {
+  pages (filter: { paths: [$path] }) {
+    id
+    name
+    path
+    fallbackTitle
+    versions {
+      version
+      date
+      comment
+      tags
+      user { id name }
+    }
+  }
+}
+`
+
+export interface PageVersion {
+  version: number
+  date: string
+  comment: string
+  /**
+   * Versions that were published carry a `published` tag
+   */
+  tags: string[]
+  user?: { id: string, name: string }
+}
+
+/**
+ * A page, asset or URL link found during a render
+ */
+export interface LinkReference {
+  type: 'page' | 'asset' | 'url'
+  /**
+   * The page path, asset path or URL the editor linked to
+   */
+  target: string
+  /**
+   * What the link was rendered as, if anything
+   */
+  href?: string
+  /**
+   * Path of the component whose fetch found the link, e.g. `areas.main.0`, or '' for the page
+   * itself. Undefined when the link was resolved outside the fetch phase.
+   */
+  componentPath?: string
+}
+
+/**
+ * Path of the component whose fetch is running, so that broken links can be credited to it
+ */
+const fetchingComponent = new AsyncLocalStorage<string>()
+
 const anonToken = await new SignJWT({ sub: 'anonymous' })
   .setIssuer('dg-render')
   .setProtectedHeader({ alg: 'HS256' })
@@ -118,6 +179,7 @@ const assetByLinkLoader = new BestMatchLoader({
     const { assets } = await api.query<{ assets: FetchedAsset[] }>(
       `query getAssetByLink ($links: [AssetLinkInput!]!) { assets (filter: { links: $links }) { ${assetDetails} } }`,
       { links: links.map(l => ({ ...pick(l, 'path', 'checksum', 'siteId'), linkId: l.id, context: { pagetreeId: api.pagetreeId } })) })
+    for (const a of assets) api.addDependency('asset', a.id)
     return assets.map(a => ({ ...a, contextPagetreeId: api.pagetreeId }))
   },
   scoreMatch: (link, asset: FetchedAsset & { contextPagetreeId?: string }) => {
@@ -137,6 +199,7 @@ const assetsByFolderPathLoader = new ManyJoinedLoader({
     const { assets } = await api.query<{ assets: FetchedAsset[] }>(
       query,
       { paths })
+    for (const a of assets) api.addDependency('asset', a.id)
     if (filters.recursive) return paths.flatMap(path => assets.filter(a => a.path.startsWith(path + '/')).map(a => ({ key: path, value: a })))
     else {
       const assetsPlusFolderPath = assets.map(a => ({ ...a, folderPath: a.path.split('/').slice(0, -1).join('/') }))
@@ -150,6 +213,7 @@ const assetfoldersByLinkLoader = new BestMatchLoader({
     const { assetfolders } = await api.query<{ assetfolders: { id: string, linkId: string, path: string, site: { id: string, name: string } }[] }>(
       'query getAssetsByFolderLink ($links: [AssetFolderLinkInput!]!) { assetfolders (filter: { links: $links }) { id linkId path site { id name } } }',
       { links: links.map(l => ({ ...pick(l, 'path', 'siteId'), linkId: l.id, context: { pagetreeId: api.pagetreeId } })) })
+    for (const f of assetfolders) api.addDependency('assetfolder', f.id)
     return assetfolders
   },
   scoreMatch: (link, folder) => folder.linkId === link.id ? 2 : (matchAssetPath(link, folder) ? 1 : 0)
@@ -173,6 +237,7 @@ interface PageWithAncestors {
 const ancestorsByIdLoader = new PrimaryKeyLoader({
   fetch: async (ids: string[], api: RenderingAPIClient) => {
     const { pages } = await api.query<{ pages: PageWithAncestors[] }>(ANCESTOR_QUERY, { ids, schemaversion, published: api.published })
+    trackPages(api, pages.flatMap(p => p.ancestors))
     return pages
   },
   extractId: pageWithAncestors => pageWithAncestors.id
@@ -180,6 +245,7 @@ const ancestorsByIdLoader = new PrimaryKeyLoader({
 const ancestorsByPathLoader = new PrimaryKeyLoader({
   fetch: async (paths: string[], api: RenderingAPIClient) => {
     const { pages } = await api.query<{ pages: PageWithAncestors[] }>(ANCESTOR_QUERY, { paths, schemaversion, published: api.published })
+    trackPages(api, pages.flatMap(p => p.ancestors))
     return pages
   },
   extractId: pageWithAncestors => pageWithAncestors.path,
@@ -203,6 +269,31 @@ interface PageWithRoot {
   rootpage: PageRecord
 }
 
+export type DependencyType = 'page' | 'pagetree' | 'site' | 'asset' | 'assetfolder' | 'data' | 'datafolder'
+
+interface TrackedDates {
+  modifiedAt?: string | Date
+  publishedAt?: string | Date | null
+}
+
+// record a page and its containers as dependencies of the current render
+function trackPages (api: RenderingAPIClient, pages: (TrackedDates & { id: string, pagetree?: { id: string }, site?: { id: string } })[]) {
+  for (const p of pages) {
+    api.addDependency('page', p.id)
+    api.addDependency('pagetree', p.pagetree?.id)
+    api.addDependency('site', p.site?.id)
+    api.addModified(p.modifiedAt, p.publishedAt)
+  }
+}
+
+// record a list of data entries as dependencies of the current render
+function trackData (api: RenderingAPIClient, data: (TrackedDates & { id: string })[]) {
+  for (const d of data) {
+    api.addDependency('data', d.id)
+    api.addModified(d.modifiedAt, d.publishedAt)
+  }
+}
+
 function processPageRecord<T extends Omit<PageRecord, 'data'>> (page: T): T {
   return {
     ...page,
@@ -215,6 +306,7 @@ function processPageRecord<T extends Omit<PageRecord, 'data'>> (page: T): T {
 const rootPageByIdLoader = new PrimaryKeyLoader({
   fetch: async (ids: string[], api: RenderingAPIClient) => {
     const { pages } = await api.query<{ pages: PageWithRoot[] }>(ROOTPAGE_QUERY, { ids, schemaversion, published: api.published })
+    trackPages(api, pages.map(p => p.rootpage))
     return pages.map(pwr => ({ ...pwr, rootpage: processPageRecord(pwr.rootpage) }))
   },
   extractId: pageWithRoot => pageWithRoot.id
@@ -222,6 +314,7 @@ const rootPageByIdLoader = new PrimaryKeyLoader({
 const rootPageByPathLoader = new PrimaryKeyLoader({
   fetch: async (paths: string[], api: RenderingAPIClient) => {
     const { pages } = await api.query<{ pages: PageWithRoot[] }>(ROOTPAGE_QUERY, { paths, schemaversion, published: api.published })
+    trackPages(api, pages.map(p => p.rootpage))
     return pages.map(pwr => ({ ...pwr, rootpage: processPageRecord(pwr.rootpage) }))
   },
   extractId: pageWithRoot => pageWithRoot.path,
@@ -245,6 +338,7 @@ type PageWithNoData<T extends PageData = PageData> = Omit<PageRecord<T>, 'data'>
 const pageByIdLoader = new PrimaryKeyLoader({
   fetch: async (ids: string[], api: RenderingAPIClient) => {
     const { pages } = await api.query<{ pages: PageRecord[] }>(PAGE_QUERY, { ids, schemaversion, published: api.published })
+    trackPages(api, pages)
     return pages.map(processPageRecord)
   },
   extractId: p => p.id
@@ -269,7 +363,9 @@ const pageByPathLoader = new PrimaryKeyLoader({
         return pages.map(processPageRecord)
       })()
     ])
-    return samesitepages.concat(othersitepages)
+    const pages = samesitepages.concat(othersitepages)
+    trackPages(api, pages)
+    return pages
   },
   extractId: p => p.path,
   idLoader: pageByIdLoader
@@ -287,6 +383,7 @@ const pageByLinkWithoutData = new BestMatchLoader<PageLink, Omit<PageRecord, 'da
   fetch: async (links, api: RenderingAPIClient) => {
     const pageLinks = links.filter(l => l.type === 'page').map(l => api.pagetreeId ? { ...pick(l, 'siteId', 'linkId', 'path'), context: { pagetreeId: api.pagetreeId } } : pick(l, 'siteId', 'linkId', 'path'))
     const { pages } = await api.query<{ pages: PageWithNoData[] }>(PAGE_QUERY_NO_DATA, { links: pageLinks })
+    trackPages(api, pages)
     return pages.map(processPageRecord).map(p => ({ ...p, contextPagetreeId: api.pagetreeId }))
   },
   scoreMatch: pageLinkScorer
@@ -295,13 +392,17 @@ const pageByLinkLoader = new BestMatchLoader<PageLink, PageRecord>({
   fetch: async (links, api: RenderingAPIClient) => {
     const pageLinks = links.filter(l => l.type === 'page').map(l => api.pagetreeId ? { ...pick(l, 'siteId', 'linkId', 'path'), context: { pagetreeId: api.pagetreeId } } : pick(l, 'siteId', 'linkId', 'path'))
     const { pages } = await api.query<{ pages: PageRecord[] }>(PAGE_QUERY, { links: pageLinks, published: api.published, schemaversion })
+    trackPages(api, pages)
     return pages.map(processPageRecord)
   },
   scoreMatch: pageLinkScorer,
   idLoader: [pageByIdLoader, pageByPathLoader]
 })
 
+// remembers which clients triggered a fetch so getTemplates can count hits and misses
+const templateCacheMisses = new WeakSet<RenderingAPIClient>()
 const templateCache = new Cache(async (_, api: RenderingAPIClient) => {
+  templateCacheMisses.add(api)
   const { templates } = await api.query<{ templates: { key: string, name: string, templateProperties: any, areas: { name: string }[] }[] }>(`
     query getTemplateInfo {
       templates {
@@ -353,6 +454,7 @@ const dataByPathLoader = new OneToManyLoader({
       `query getDataByPath ($paths: [UrlSafePath!]!, $published: Boolean!, $templateKey: ID!) { data (filter: { beneathOrAt: $paths, published: $published, deleteStates: [NOTDELETED], templateKeys:[$templateKey] }) { ${dataDetails} } }`,
       { paths, published: api.published, templateKey }
     )
+    trackData(api, data)
     return data
   },
   matchKey: (path: string, d: FetchedData) => d.path.startsWith(path)
@@ -363,6 +465,7 @@ const dataByDataLinkLoader = new BestMatchLoader({
     const { data } = await api.query<{ data: FetchedData[] }>(
       `query getDataByLink ($links: [DataLinkInput!]!, $published: Boolean!) { data (filter: { links: $links, published: $published, deleteStates: [NOTDELETED] }) { ${dataDetails} } }`,
       { links: links.map(l => pick(l, 'id', 'siteId', 'path', 'templateKey')), published: api.published })
+    trackData(api, data)
     return data
   },
   scoreMatch: (link, data) => {
@@ -393,6 +496,10 @@ const dataFolderByFolderLinkLoader = new BestMatchLoader({
     const { datafolders } = await api.query<{ datafolders: FetchedDataFolder[] }>(
       `query getDataFolderByLink ($links: [DataFolderLinkInput!]!, $published: Boolean!) { datafolders (filter: { links: $links, deleteStates: [NOTDELETED] }){ id name path template { key } site { id name } data(filter:{published:$published, deleteStates: [NOTDELETED]}) { ${dataDetails} } } }`,
       { links: links.map(l => pick(l, 'id', 'siteId', 'path', 'templateKey')), published: api.published })
+    for (const f of datafolders) {
+      api.addDependency('datafolder', f.id)
+      trackData(api, f.data)
+    }
     return datafolders
   },
   scoreMatch: (link, folder) => {
@@ -414,6 +521,40 @@ export class RenderingAPIClient implements APIClient {
   contextOrigin: string
   traceparent?: string
   resolvedLinks = new Map<string, string | undefined>()
+  /**
+   * Image attributes for every asset-backed image href found by scanForLinks, so that rich text
+   * can turn a plain <img src> into a responsive image.
+   */
+  resolvedImages = new Map<string, PictureAttributes>()
+  /**
+   * What each href found by scanForLinks points to, so that rich text can apply the link policy.
+   * Links typed in as a URL are left for the link policy to classify.
+   */
+  linkKinds = new Map<string, LinkKind>()
+  linkPolicy: LinkPolicy = defaultLinkPolicy
+  /**
+   * Every broken link found while rendering, at most once per component
+   */
+  brokenLinks: LinkReference[] = []
+  /**
+   * Every working link to another website found while rendering, at most once per component,
+   * so that a link checker can see whether they still respond
+   */
+  externalLinks: LinkReference[] = []
+  protected linkKeys = new Set<string>()
+  /**
+   * Every page, asset, data entry, folder, pagetree and site loaded while rendering, formatted
+   * like `page:<id>`. The live route sends these out as Surrogate-Key / Cache-Tag headers so
+   * that a CDN can purge exactly the pages affected by a publish.
+   */
+  dependencies = new Set<string>()
+  /**
+   * The newest modifiedAt or publishedAt of any page or data entry loaded while rendering, used
+   * for the Last-Modified header.
+   */
+  lastModified?: Date
+  timing = new RenderTiming()
+  #cspNonce?: string
   static contextPath = process.env.CONTEXT_PATH ?? ''
 
   constructor (public published: boolean, req?: FastifyRequest) {
@@ -423,6 +564,22 @@ export class RenderingAPIClient implements APIClient {
     this.traceparent = req?.headers.traceparent as string | undefined
   }
 
+  /**
+   * Nonce for this render's Content-Security-Policy. Templates that output an inline script
+   * or style must give it a matching nonce attribute, or a strict policy will block it.
+   *
+   * Undefined when the policy for the render's context doesn't ask for one, so that cached
+   * renders can skip swapping in a fresh one.
+   */
+  get cspNonce () {
+    if (policyUsesNonce(this.context)) this.#cspNonce ??= createNonce()
+    return this.#cspNonce
+  }
+
+  set cspNonce (nonce: string | undefined) {
+    this.#cspNonce = nonce
+  }
+
   async getAncestors ({ id, path }: { id?: string, path?: string }) {
     const page = (id && await this.dlf.get(ancestorsByIdLoader).load(id))
       ?? (path && await this.dlf.get(ancestorsByPathLoader).load(path))
@@ -460,6 +617,9 @@ export class RenderingAPIClient implements APIClient {
     const minDepth = (beneath[0] === '/' ? 0 : beneath[0].replace(/\/+$/, '').split('/').length - 1)
     const finalDepth = opts.depth + minDepth
     if (opts.beneath && opts.beneath !== '/' && opts.depth != null) opts.depth += opts.beneath.split('/').length - 1
+    // pages added to the pagetree later won't be in the list of pages we track, so the
+    // navigation depends on the pagetree as a whole
+    this.addDependency('pagetree', this.pagetreeId)
     const roots: PageForNavigation[] = []
     const pagesById: Record<string, PageForNavigation | undefined> = {}
     for (let i = minDepth; i <= finalDepth; i++) {
@@ -480,6 +640,7 @@ export class RenderingAPIClient implements APIClient {
           }
         }
       `, { pagetreeId: this.pagetreeId, depth: i, dataPaths: opts.extra ?? [], published: !!opts.published || this.published, beneath, tagsAny: opts.tagsAny })
+      trackPages(this, pages)
       const pagesForNavigation = pages.map<PageForNavigation & { parent?: { id: string } }>(p => ({
         ...p,
         title: p.fallbackTitle,
@@ -510,13 +671,41 @@ export class RenderingAPIClient implements APIClient {
     return href
   }
 
+  /**
+   * Run a component's fetch so that any broken links it resolves are credited to it
+   */
+  async fetchFor<T> (component: { path: string }, fn: () => Promise<T>) {
+    return await fetchingComponent.run(component.path, fn)
+  }
+
+  protected recordLink (list: 'brokenLinks' | 'externalLinks', link: LinkDefinition, href?: string) {
+    if (link.type !== 'page' && link.type !== 'asset' && link.type !== 'url') return
+    const reference: LinkReference = {
+      type: link.type,
+      target: link.type === 'url' ? link.url : link.type === 'asset' ? (link.path ?? link.id) : link.path,
+      href,
+      componentPath: fetchingComponent.getStore()
+    }
+    const key = stringify([list, reference.componentPath, reference.type, reference.target])
+    if (this.linkKeys.has(key)) return
+    this.linkKeys.add(key)
+    this[list].push(reference)
+  }
+
   async resolveLinkPlus (lnk: string | LinkDefinition | undefined, opts?: { absolute?: boolean, extension?: string }): Promise<{ href?: string, title?: string, broken: boolean }> {
     if (!lnk) return { broken: true }
+    const link = typeof lnk === 'string' ? JSON.parse(lnk) as LinkDefinition : lnk
+    const resolved = await this.resolveLinkDefinition(link, opts)
+    if (resolved.broken) this.recordLink('brokenLinks', link, resolved.href)
+    else if (link.type === 'url' && /^https?:\/\//i.test(link.url)) this.recordLink('externalLinks', link, resolved.href)
+    return resolved
+  }
+
+  protected async resolveLinkDefinition (link: LinkDefinition, opts?: { absolute?: boolean, extension?: string }): Promise<{ href?: string, title?: string, broken: boolean }> {
     const rOpts = {
       absolute: !!opts?.absolute,
       extension: opts?.extension?.replace(/^\.+/, '') ?? 'html'
     }
-    const link = typeof lnk === 'string' ? JSON.parse(lnk) as LinkDefinition : lnk
     if (['data', 'datafolder', 'assetfolder'].includes(link.type)) return { broken: true }
     if (link.type === 'page') {
       const hash = isNotBlank(link.hash) ? '#' + link.hash.replace(/^#/, '') : ''
@@ -619,8 +808,23 @@ export class RenderingAPIClient implements APIClient {
 
   async scanForLinks (text: string | undefined, opts?: { absolute?: boolean }) {
     const links = extractLinksFromText(text)
-    const resolvedLinks = (await Promise.all(links.map(async l => await this.resolveLink(l, opts))))
-    for (let i = 0; i < links.length; i++) this.resolvedLinks.set(ensureString(links[i]), resolvedLinks[i])
+    const resolved = await Promise.all(links.map(async l => await this.resolveLinkPlus(l, opts)))
+    const resolvedLinks = resolved.map(r => r.href)
+    for (let i = 0; i < links.length; i++) {
+      this.resolvedLinks.set(ensureString(links[i]), resolvedLinks[i])
+      const href = resolvedLinks[i]
+      if (!href) continue
+      if (resolved[i].broken) this.linkKinds.set(href, 'broken')
+      else if (links[i].type === 'asset') this.linkKinds.set(href, 'asset')
+      else if (links[i].type === 'page' || href.startsWith('/')) this.linkKinds.set(href, 'internal')
+    }
+    await Promise.all(links.map(async (link, i) => {
+      const href = resolvedLinks[i]
+      if (link.type !== 'asset' || !href || this.resolvedImages.has(href)) return
+      // already loaded by resolveLink, so this comes straight from the dataloader cache
+      const image = this.getImgAttributesFromAsset(await this.getAssetByLink(link), opts?.absolute)
+      if (image) this.resolvedImages.set(href, image)
+    }))
   }
 
   assetPrefix (absolute?: boolean) {
@@ -653,6 +857,7 @@ export class RenderingAPIClient implements APIClient {
     const asset = await this.getAssetByLink(link)
     if (!asset) {
       if (typeof link === 'string') link = JSON.parse(link) as AssetLink
+      this.recordLink('brokenLinks', link, link.path)
       return {
         broken: true,
         src: link.path ?? '',
@@ -699,6 +904,35 @@ export class RenderingAPIClient implements APIClient {
     }
   }
 
+  /**
+   * Layer the current site's overrides over the default link policy. Sites override it with a
+   * data entry at the root of the site, using the data template named in
+   * DOSGATO_LINK_POLICY_TEMPLATE_KEY, whose data has the same shape as LinkPolicy.
+   *
+   * Call after sitename is set.
+   */
+  async loadLinkPolicy () {
+    const templateKey = process.env.DOSGATO_LINK_POLICY_TEMPLATE_KEY
+    if (isBlank(templateKey) || !this.sitename) return
+    const override = await this.getSiteRootData(templateKey, 'link policy')
+    this.linkPolicy = mergeLinkPolicy(defaultLinkPolicy, override?.data as LinkPolicy | undefined)
+  }
+
+  /**
+   * Get a site-wide setting stored as a data entry at the root of the current site. Entries in
+   * data folders are ignored, since editors who can only edit a folder shouldn't be able to
+   * change the whole site, and if the root has more than one, the oldest wins.
+   *
+   * Call after sitename is set.
+   */
+  async getSiteRootData (templateKey: string, description: string) {
+    const atRoot = (await this.getDataByPath(templateKey, '/' + this.sitename))
+      .filter(d => d.path === `/${this.sitename}/${d.name}`)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+    if (atRoot.length > 1) console.warn(`Site ${this.sitename} has ${atRoot.length} data entries for its ${description}, using ${atRoot[0].name}.`)
+    return atRoot[0] as DataRecord | undefined
+  }
+
   async getDataByPath (templateKey: string, path: string) {
     const data = await this.dlf.get(dataByPathLoader, templateKey).load(path)
     return data.map(fetchedDataToRecord)
@@ -706,19 +940,34 @@ export class RenderingAPIClient implements APIClient {
 
   async getLaunchedPage (hostname: string, path: string, schemaversion: Date) {
     const { pages } = await this.#query<{ pages: (PageRecord & { site: { url: { prefix: string } }, pagetree: { id: string } })[] }>(anonToken, LAUNCHED_PAGE_QUERY, { launchUrl: `http://${hostname}${path}`, schemaversion, published: true })
+    trackPages(this, pages.slice(0, 1))
     return pages[0] ? processPageRecord(pages[0]) : undefined
   }
 
   async getSiteInfoByLaunchUrl (launchUrl: string) {
-    const { sites } = await this.#query<{ sites: { id: string, primaryPagetree: { id: string }, url: { path: string, prefix: string } }[] }>(anonToken, 'query getSiteByLaunchUrl ($launchUrl: String!) { sites (filter: { launchUrls: [$launchUrl] }) { id primaryPagetree { id } url { path prefix } } }', { launchUrl })
+    const { sites } = await this.#query<{ sites: { id: string, name: string, primaryPagetree: { id: string }, url: { path: string, prefix: string } }[] }>(anonToken, 'query getSiteByLaunchUrl ($launchUrl: String!) { sites (filter: { launchUrls: [$launchUrl] }) { id name primaryPagetree { id } url { path prefix } } }', { launchUrl })
     return sites[0]
   }
 
   async getPreviewPage (token: string | undefined, path: string, schemaversion: Date, published?: true, version?: number) {
     const { pages } = await this.#query<{ pages: (PageRecord & { site: { name: string }, pagetree: { id: string } })[] }>(token ?? anonToken, PREVIEW_PAGE_QUERY, { path, schemaversion, published, version })
+    trackPages(this, pages.slice(0, 1))
     return pages[0] ? processPageRecord(pages[0]) : undefined
   }
 
+  async getPageVersions (token: string, path: string) {
+    const { pages } = await this.#query<{ pages: { id: string, name: string, path: string, fallbackTitle: string, versions: PageVersion[] }[] }>(token, PAGE_VERSIONS_QUERY, { path })
+    return pages[0]
+  }
+
+  /**
+   * Get an unpublished page for a share link. The recipient has no token of their own, so
+   * this uses the render server's access and relies on the share link having been checked.
+   */
+  async getSharedPage (path: string, schemaversion: Date, version?: number) {
+    return await this.getPreviewPage(renderToken, path, schemaversion, undefined, version)
+  }
+
   async getAssetByLink (link: AssetLink | string) {
     if (typeof link === 'string') link = JSON.parse(link) as AssetLink
     return await this.dlf.get(assetByLinkLoader).load(link)
@@ -751,27 +1000,71 @@ export class RenderingAPIClient implements APIClient {
     return users[0]?.id
   }
 
+  addDependency (type: DependencyType, id: string | undefined) {
+    if (id) this.dependencies.add(`${type}:${id}`)
+  }
+
+  addModified (...dates: (string | Date | null | undefined)[]) {
+    for (const d of dates) {
+      if (d == null) continue
+      const date = new Date(d)
+      if (!isNaN(date.getTime()) && (!this.lastModified || date > this.lastModified)) this.lastModified = date
+    }
+  }
+
+  /**
+   * Format the tracked dependencies for a CDN header, keeping it below the size limit most
+   * CDNs impose. Sites and pagetrees come first so that a truncated list can still be
+   * purged by site or pagetree.
+   */
+  dependencyHeader (separator: string, maxLength = 8192) {
+    const weight = (key: string) => key.startsWith('site:') ? 0 : key.startsWith('pagetree:') ? 1 : 2
+    const keys = Array.from(this.dependencies).sort((a, b) => weight(a) - weight(b))
+    let header = ''
+    for (const key of keys) {
+      const next = header ? header + separator + key : key
+      if (next.length > maxLength) break
+      header = next
+    }
+    return header
+  }
+
   async getTemplates () {
-    return await templateCache.get(undefined, this)
+    const templates = await templateCache.get(undefined, this)
+    templateCacheCounter.inc({ result: templateCacheMisses.has(this) ? 'miss' : 'hit' })
+    templateCacheMisses.delete(this)
+    return templates
   }
 
   async #query <T = any> (token: string, query: string, variables?: any) {
-    const resp = await fetch(process.env.DOSGATO_API_BASE! + '/graphql', {
-      method: 'POST',
-      mode: 'no-cors',
-      cache: 'no-cache',
-      referrerPolicy: 'no-referrer',
-      body: stringify({ query, variables }),
-      headers: {
-        Authorization: `Bearer ${token}`,
-        'Content-Type': 'application/json',
-        ...(this.traceparent ? { traceparent: this.traceparent } : {})
-      }
-    })
-    if (resp.status >= 400) throw new HttpError(resp.status, await resp.text())
-    const body = await resp.json()
-    if (body.errors?.length) throw new Error(body.errors[0].message)
-    return body.data as T
+    const start = performance.now()
+    const operation = operationName(query)
+    try {
+      return await withSpan(`graphql ${operation}`, { 'graphql.operation.name': operation }, async () => {
+        const resp = await fetch(process.env.DOSGATO_API_BASE! + '/graphql', {
+          method: 'POST',
+          mode: 'no-cors',
+          cache: 'no-cache',
+          referrerPolicy: 'no-referrer',
+          body: stringify({ query, variables }),
+          headers: {
+            Authorization: `Bearer ${token}`,
+            'Content-Type': 'application/json',
+            // when we aren't tracing ourselves, at least pass along the caller's trace
+            ...(this.traceparent ? { traceparent: this.traceparent } : {}),
+            ...traceHeaders()
+          }
+        })
+        if (resp.status >= 400) throw new HttpError(resp.status, await resp.text())
+        const body = await resp.json()
+        if (body.errors?.length) throw new Error(body.errors[0].message)
+        return body.data as T
+      })
+    } finally {
+      const ms = performance.now() - start
+      this.timing.query(ms)
+      graphqlHistogram.observe({ operation }, ms / 1000)
+    }
   }
 
   async query <T = any> (query: string, variables?: any) {
@@ -780,16 +1073,21 @@ export class RenderingAPIClient implements APIClient {
 }
 
 export async function download (url: string, token: string | undefined, headers: IncomingHttpHeaders) {
-  return await fetch(url, {
-    // the API's response, including any redirect, gets proxied to the end user, so we
-    // must not follow redirects here
-    redirect: 'manual',
-    headers: {
-      ...pick(headers, 'accept', 'user-agent', 'if-modified-since', 'if-none-match', 'traceparent') as Record<string, string>,
-      // fetch would otherwise ask for compression and transparently decompress, which
-      // would make the API's Content-Length header wrong when we proxy it through
-      'accept-encoding': 'identity',
-      Authorization: `Bearer ${token ?? anonToken}`
-    }
+  return await withSpan('download', { 'url.full': url }, async span => {
+    const resp = await fetch(url, {
+      // the API's response, including any redirect, gets proxied to the end user, so we
+      // must not follow redirects here
+      redirect: 'manual',
+      headers: {
+        ...pick(headers, 'accept', 'user-agent', 'if-modified-since', 'if-none-match', 'traceparent') as Record<string, string>,
+        ...traceHeaders(),
+        // fetch would otherwise ask for compression and transparently decompress, which
+        // would make the API's Content-Length header wrong when we proxy it through
+        'accept-encoding': 'identity',
+        Authorization: `Bearer ${token ?? anonToken}`
+      }
+    })
+    span.setAttribute('http.response.status_code', resp.status)
+    return resp
   })
 }
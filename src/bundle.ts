@@ -0,0 +1,187 @@
+import { createHmac } from 'node:crypto'
+import { type CompressedData, compress } from './compression.js'
+import { subresourceIntegrity } from './csp.js'
+import { type RegistryCSSBlock, type RegistryJSBlock, templateRegistry } from './registry.js'
+import { jwtSignKey } from './util.js'
+
+export interface ResourceBundle {
+  /**
+   * A keyed hash of the names and content of its blocks, so that only a render server can
+   * come up with a valid one, see findBundle
+   */
+  hash: string
+  /**
+   * `bundle-` followed by the hash
+   */
+  name: string
+  extension: 'css' | 'js'
+  blocks: string[]
+  /**
+   * The blocks joined together. Cheap to make since the blocks are already in memory, and
+   * needed right away for the integrity attribute.
+   */
+  code: string
+  /**
+   * An index source map pointing back at each block
+   */
+  map: string
+  integrity: string
+  /**
+   * Compressing is the expensive part, so it waits until someone requests the bundle
+   */
+  compressed?: Promise<CompressedData>
+}
+
+/**
+ * Bundles built for our own renders. Pages only ask for so many combinations of registered
+ * blocks, which never change while the server is running, so there's no need to ever forget
+ * one.
+ */
+const bundlesByBlocks = new Map<string, ResourceBundle>()
+const bundlesByFile = new Map<string, ResourceBundle>()
+
+/**
+ * Bundles rebuilt from a URL, usually one another server instance rendered. Anyone can ask
+ * for those, so only the most recently used are kept.
+ */
+const rebuiltBundles = new Map<string, ResourceBundle>()
+const maxRebuiltBundles = 200
+
+const bundleSignKey = createHmac('sha256', jwtSignKey.export()).update('dosgato-resource-bundles').digest()
+
+function blockCode (extension: 'css' | 'js', name: string) {
+  return extension === 'css' ? templateRegistry.cssblocks.get(name)?.css : templateRegistry.jsblocks.get(name)?.js
+}
+
+function blockHash (extension: 'css' | 'js', name: string) {
+  return extension === 'css' ? templateRegistry.cssblocks.get(name)?.hash : templateRegistry.jsblocks.get(name)?.hash
+}
+
+/**
+ * Concatenate blocks and build an index source map so that dev tools still show each
+ * original block
+ */
+function joinBlocks (extension: 'css' | 'js', blocks: string[], name: string) {
+  const sections: { offset: { line: number, column: number }, map: unknown }[] = []
+  let code = ''
+  let line = 0
+  for (const blockName of blocks) {
+    const block = extension === 'css' ? templateRegistry.cssblocks.get(blockName)! : templateRegistry.jsblocks.get(blockName)!
+    const wrap = extension === 'js' && !(block as RegistryJSBlock).nomodule
+    const blockcode = (blockCode(extension, blockName) ?? '').replace(/\n$/, '')
+    if (block.map) sections.push({ offset: { line: line + (wrap ? 1 : 0), column: 0 }, map: JSON.parse(block.map) })
+    // an error thrown by one module block is reported without stopping the blocks after it
+    const part = wrap ? `try {\n${blockcode}\n} catch (e) { setTimeout(() => { throw e }) }\n` : blockcode + (extension === 'js' ? ';\n' : '\n')
+    code += part
+    line += part.split('\n').length - 1
+  }
+  return { code, map: JSON.stringify({ version: 3, file: `${name}.${extension}`, sections }) }
+}
+
+function bundleHash (extension: 'css' | 'js', blocks: string[]) {
+  const hash = createHmac('sha256', bundleSignKey).update(extension).update('\0')
+  // each block's hash covers its content
+  for (const name of blocks) hash.update(name).update('\0').update(blockHash(extension, name) ?? '').update('\0')
+  return hash.digest('hex').substring(0, 16)
+}
+
+function buildBundle (extension: 'css' | 'js', blocks: string[], hash: string): ResourceBundle {
+  const { code, map } = joinBlocks(extension, blocks, 'bundle-' + hash)
+  return { hash, name: 'bundle-' + hash, extension, blocks, code, map, integrity: subresourceIntegrity(code) }
+}
+
+function bundleFor (extension: 'css' | 'js', blocks: string[]) {
+  const key = `${extension}:${blocks.join(',')}`
+  let bundle = bundlesByBlocks.get(key)
+  if (!bundle) {
+    bundle = buildBundle(extension, blocks, bundleHash(extension, blocks))
+    bundlesByBlocks.set(key, bundle)
+    bundlesByFile.set(`${bundle.name}.${extension}`, bundle)
+  }
+  return bundle
+}
+
+function bundleHref (bundle: ResourceBundle, extension = bundle.extension as string) {
+  return `/.resources/${bundle.hash}/${bundle.name}.${extension}?blocks=${encodeURIComponent(bundle.blocks.join(','))}`
+}
+
+/**
+ * Module scripts each get their own scope, so they are wrapped in a block before being
+ * combined. That doesn't work for blocks with static imports or exports, and CSS with @import
+ * has to come first in its file, so those blocks are never bundled.
+ *
+ * Syntax errors were already caught when each block was minified, and each module block
+ * catches its own runtime errors, but classic (nomodule) scripts share a scope and are simply
+ * concatenated. One of those that throws at load time stops the rest of its bundle.
+ */
+export function bundleable (extension: 'css' | 'js', block: RegistryCSSBlock | RegistryJSBlock) {
+  const code = extension === 'css' ? (block as RegistryCSSBlock).css : (block as RegistryJSBlock).js
+  if (code == null) return false
+  if (extension === 'css') return !/@(import|charset)\b/i.test(code)
+  return !!(block as RegistryJSBlock).nomodule || !/(^|[;}\n])\s*(import\s*[\w{*"'`]|export\b)/.test(code)
+}
+
+/**
+ * Combine the blocks a page needs into as few files as possible. Blocks that load differently,
+ * async or not and module or not, go into separate bundles. Order within each bundle follows
+ * the order the page asked for them in.
+ *
+ * Returns an href and integrity for each file the page should load, along with the first
+ * block in it, so that callers can see how it should be loaded. A bundle of one is just that
+ * block's file.
+ */
+export function bundleBlocks<T extends RegistryCSSBlock | RegistryJSBlock> (extension: 'css' | 'js', blocks: { name: string, block: T }[]) {
+  const groups = new Map<string, { name: string, block: T }[]>()
+  for (const entry of blocks) {
+    const key = bundleable(extension, entry.block)
+      ? `${!!entry.block.async}:${!!(entry.block as RegistryJSBlock).nomodule}`
+      : `alone:${entry.name}`
+    if (!groups.has(key)) groups.set(key, [])
+    groups.get(key)!.push(entry)
+  }
+  return Array.from(groups.values()).map(group => {
+    if (group.length === 1) return { href: group[0].block.href!, integrity: group[0].block.integrity!, block: group[0].block }
+    const bundle = bundleFor(extension, group.map(g => g.name))
+    return { href: bundleHref(bundle), integrity: bundle.integrity, block: group[0].block }
+  })
+}
+
+/**
+ * Find a bundle by its file name, e.g. bundle-0123456789abcdef.css.
+ *
+ * The bundle's URL includes its list of blocks, so that any server instance can rebuild it,
+ * even one that has never rendered a page that uses it. The name is a keyed hash of that list
+ * and the blocks' content, so a list that no render server came up with, like one with
+ * repeated or reordered blocks, is refused. So is one whose blocks have changed since, e.g.
+ * in HTML cached before a deploy, since its integrity attribute would no longer match.
+ */
+export function findBundle (file: string, blocks: string | undefined) {
+  const known = bundlesByFile.get(file) ?? rebuiltBundles.get(file)
+  if (known) {
+    // move to the back of the line so it's the last to be forgotten
+    if (rebuiltBundles.delete(file)) rebuiltBundles.set(file, known)
+    return known
+  }
+  const extension = file.endsWith('.css') ? 'css' : file.endsWith('.js') ? 'js' : undefined
+  if (!extension || !blocks) return undefined
+  const names = blocks.split(',')
+  if (names.length < 2 || new Set(names).size !== names.length || names.some(name => blockCode(extension, name) == null)) return undefined
+  const hash = bundleHash(extension, names)
+  if (`bundle-${hash}.${extension}` !== file) return undefined
+  const bundle = buildBundle(extension, names, hash)
+  rebuiltBundles.set(file, bundle)
+  if (rebuiltBundles.size > maxRebuiltBundles) rebuiltBundles.delete(rebuiltBundles.keys().next().value!)
+  return bundle
+}
+
+/**
+ * Compress a bundle for sending. Only done once per bundle, the first time someone asks for it.
+ */
+export async function compressBundle (bundle: ResourceBundle) {
+  bundle.compressed ??= compress(bundle.code)
+  return await bundle.compressed
+}
+
+export function bundleMapHref (bundle: ResourceBundle) {
+  return bundleHref(bundle, `${bundle.extension}.map`)
+}
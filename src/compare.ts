@@ -0,0 +1,387 @@
+import type { Component, ComponentData } from '@dosgato/templating'
+import { load } from 'cheerio'
+import htmldiff from 'node-htmldiff'
+import { equal, htmlEncode, omit } from 'txstate-utils'
+import { nonceAttr } from './csp.js'
+
+export interface AreaChanges {
+  /**
+   * Path to the area in the newer version, e.g. areas.main or areas.main.2.areas.content
+   */
+  area: string
+  inserted: number
+  deleted: number
+  changed: number
+}
+
+export interface ChangeSummary {
+  /**
+   * True when the page's own properties changed, as opposed to its components
+   */
+  pageChanged: boolean
+  areas: AreaChanges[]
+  totals: { inserted: number, deleted: number, changed: number }
+}
+
+/**
+ * Describe a version parsed by parseVersion for display
+ */
+export function versionLabel (version: { published?: true, version?: number }) {
+  if (version.published) return 'Public'
+  if (version.version != null) return `Version ${version.version}`
+  return 'Latest'
+}
+
+// index pairs of the components that are identical in both lists, keeping their order
+function unchangedPairs (from: ComponentData[], to: ComponentData[]) {
+  const lengths = Array.from({ length: from.length + 1 }, () => new Array<number>(to.length + 1).fill(0))
+  for (let i = from.length - 1; i >= 0; i--) {
+    for (let j = to.length - 1; j >= 0; j--) {
+      lengths[i][j] = equal(from[i], to[j]) ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+  const pairs: [number, number][] = []
+  let i = 0
+  let j = 0
+  while (i < from.length && j < to.length) {
+    if (equal(from[i], to[j])) pairs.push([i++, j++])
+    else if (lengths[i + 1][j] >= lengths[i][j + 1]) i++
+    else j++
+  }
+  return pairs
+}
+
+function compareAreas (from: ComponentData, to: ComponentData, path: string, changes: AreaChanges[]) {
+  for (const name of new Set([...Object.keys(from.areas ?? {}), ...Object.keys(to.areas ?? {})])) {
+    const fromList = from.areas?.[name] ?? []
+    const toList = to.areas?.[name] ?? []
+    const area = { area: `${path}areas.${name}`, inserted: 0, deleted: 0, changed: 0 }
+    changes.push(area)
+    let fromStart = 0
+    let toStart = 0
+    // whatever sits between two unchanged components was inserted, deleted, or edited in place
+    for (const [fromEnd, toEnd] of [...unchangedPairs(fromList, toList), [fromList.length, toList.length]]) {
+      for (let k = 0; k < Math.max(fromEnd - fromStart, toEnd - toStart); k++) {
+        const f = fromStart + k < fromEnd ? fromList[fromStart + k] : undefined
+        const t = toStart + k < toEnd ? toList[toStart + k] : undefined
+        if (f && f.templateKey === t?.templateKey) {
+          if (!equal(omit(f, 'areas'), omit(t, 'areas'))) area.changed++
+          compareAreas(f, t, `${area.area}.${toStart + k}.`, changes)
+        } else {
+          if (f) area.deleted++
+          if (t) area.inserted++
+        }
+      }
+      fromStart = fromEnd + 1
+      toStart = toEnd + 1
+    }
+  }
+}
+
+/**
+ * Count the components that were inserted, deleted or changed in each area between two
+ * versions of a page's data.
+ *
+ * Components that are identical in both versions anchor the comparison. Between anchors, a
+ * component in the same position with the same template counts as changed, anything else
+ * counts as a deletion or insertion. A component whose only changes are further down the
+ * tree is not counted itself, its descendants are.
+ */
+export function summarizeChanges (from: ComponentData, to: ComponentData): ChangeSummary {
+  const changes: AreaChanges[] = []
+  compareAreas(from, to, '', changes)
+  const areas = changes.filter(a => a.inserted || a.deleted || a.changed)
+  return {
+    pageChanged: !equal(omit(from, 'areas', 'savedAtVersion'), omit(to, 'areas', 'savedAtVersion')),
+    areas,
+    totals: {
+      inserted: areas.reduce((sum, a) => sum + a.inserted, 0),
+      deleted: areas.reduce((sum, a) => sum + a.deleted, 0),
+      changed: areas.reduce((sum, a) => sum + a.changed, 0)
+    }
+  }
+}
+
+export interface ComponentChange {
+  type: 'added' | 'removed' | 'moved' | 'edited'
+  templateKey: string
+  /**
+   * Path to the component in the newer version, or the older version for removed components.
+   * The page itself has an empty path.
+   */
+  path: string
+  /**
+   * Path to the component in the older version when it's in a different spot now
+   */
+  fromPath?: string
+  /**
+   * Data properties that differ, for edited components
+   */
+  fields?: string[]
+}
+
+function changedFields (from: ComponentData, to: ComponentData) {
+  return Array.from(new Set([...Object.keys(from), ...Object.keys(to)]))
+    .filter(key => key !== 'areas' && key !== 'savedAtVersion' && !equal(from[key], to[key]))
+}
+
+function similarity (from: ComponentData, to: ComponentData) {
+  return Object.keys(to).filter(key => key !== 'areas' && equal(from[key], to[key])).length
+}
+
+// positions in `indexes` that form its longest increasing run, i.e. the components that kept
+// their relative order
+function keptOrder (indexes: number[]) {
+  const lengths = indexes.map(() => 1)
+  const prev = indexes.map(() => -1)
+  for (let i = 0; i < indexes.length; i++) {
+    for (let j = 0; j < i; j++) {
+      if (indexes[j] < indexes[i] && lengths[j] + 1 > lengths[i]) {
+        lengths[i] = lengths[j] + 1
+        prev[i] = j
+      }
+    }
+  }
+  const kept = new Set<number>()
+  let i = lengths.indexOf(Math.max(0, ...lengths))
+  while (i >= 0) {
+    kept.add(i)
+    i = prev[i]
+  }
+  return kept
+}
+
+function matchComponents (from: Component, to: Component, moved: boolean, changes: ComponentChange[], removed: Component[], added: Component[]) {
+  const fields = changedFields(from.data, to.data)
+  if (fields.length) changes.push({ type: 'edited', templateKey: to.data.templateKey, path: to.path, fromPath: moved ? from.path : undefined, fields })
+  else if (moved) changes.push({ type: 'moved', templateKey: to.data.templateKey, path: to.path, fromPath: from.path })
+  for (const name of new Set([...from.areas.keys(), ...to.areas.keys()])) {
+    const fromList = from.areas.get(name) ?? []
+    const toList = to.areas.get(name) ?? []
+    const matched = new Map<Component, Component>()
+    const used = new Set<Component>()
+    // identical components first, so that an edit elsewhere in the area can't steal them
+    for (const t of toList) {
+      const f = fromList.find(f => !used.has(f) && f.data.templateKey === t.data.templateKey && !changedFields(f.data, t.data).length)
+      if (f) {
+        matched.set(t, f)
+        used.add(f)
+      }
+    }
+    // then treat the most similar remaining component with the same template as edited
+    for (const t of toList) {
+      if (matched.has(t)) continue
+      let best: Component | undefined
+      for (const f of fromList) {
+        if (used.has(f) || f.data.templateKey !== t.data.templateKey) continue
+        if (!best || similarity(f.data, t.data) > similarity(best.data, t.data)) best = f
+      }
+      if (best) {
+        matched.set(t, best)
+        used.add(best)
+      }
+    }
+    const pairs = toList.filter(t => matched.has(t)).map(t => ({ from: matched.get(t)!, to: t }))
+    const kept = keptOrder(pairs.map(p => fromList.indexOf(p.from)))
+    // a component that kept its order relative to its siblings hasn't moved, even if
+    // its index changed because of insertions or deletions around it
+    for (let i = 0; i < pairs.length; i++) matchComponents(pairs[i].from, pairs[i].to, !kept.has(i), changes, removed, added)
+    removed.push(...fromList.filter(f => !used.has(f)))
+    added.push(...toList.filter(t => !matched.has(t)))
+  }
+}
+
+/**
+ * Match up the components of two hydrated versions of a page and describe what happened
+ * to each one.
+ *
+ * Components are matched within each area: first identical components with the same
+ * template, then the most similar remaining component with the same template, which
+ * counts as edited. Matched components that are out of order relative to their siblings
+ * count as moved. Whatever is left over was added or removed, unless an identical component
+ * turns up in another area, in which case it moved there.
+ */
+export function diffComponentTrees (from: Component, to: Component) {
+  const changes: ComponentChange[] = []
+  const removed: Component[] = []
+  const added: Component[] = []
+  matchComponents(from, to, false, changes, removed, added)
+  for (const t of added) {
+    const index = removed.findIndex(f => f.data.templateKey === t.data.templateKey && equal(f.data, t.data))
+    if (index >= 0) {
+      matchComponents(removed[index], t, true, changes, [], [])
+      removed.splice(index, 1)
+    } else changes.push({ type: 'added', templateKey: t.data.templateKey, path: t.path })
+  }
+  changes.push(...removed.map(f => ({ type: 'removed' as const, templateKey: f.data.templateKey, path: f.path })))
+  return changes
+}
+
+function changeLabel (change: ComponentChange) {
+  if (change.type === 'added') return 'Added'
+  if (change.type === 'removed') return 'Removed'
+  if (change.type === 'moved') return 'Moved'
+  return `Edited: ${change.fields!.join(', ')}${change.fromPath ? ' (moved)' : ''}`
+}
+
+/**
+ * Styles for the outlines placed on changed components by highlightChange. Outlines don't take
+ * up space, so the page keeps its layout, and the label sits on top of whatever is above.
+ */
+export function changeHighlightStyles (nonce?: string) {
+  return `<style${nonceAttr(nonce)}>
+    .dg-change { position: relative; outline: 3px solid; outline-offset: 2px; }
+    .dg-change::before { content: attr(data-dg-change); z-index: 1; white-space: nowrap; position: absolute; bottom: 100%; left: -5px; padding: 0.1em 0.4em; font: 12px/1.4 sans-serif; color: white; }
+    .dg-change-added { outline-color: #2e7d32; }
+    .dg-change-added::before { background-color: #2e7d32; }
+    .dg-change-moved { outline-color: #1565c0; }
+    .dg-change-moved::before { background-color: #1565c0; }
+    .dg-change-edited { outline-color: #e65100; }
+    .dg-change-edited::before { background-color: #e65100; }
+    .dg-changes-removed { padding: 0.5em 1em; font: 14px/1.4 sans-serif; background-color: #fde0e0; border-bottom: 3px solid #c62828; }
+  </style>`
+}
+
+// the first start tag in a component's output, after any whitespace and comments
+const rootTag = /^(\s*(?:<!--[\s\S]*?-->\s*)*)<([a-zA-Z][\w:-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)(\s*\/?>)/
+const classAttr = /(\sclass\s*=\s*)(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+))/i
+
+/**
+ * Mark a changed component's rendered output with a labeled outline.
+ *
+ * The marker goes on the component's root element instead of a wrapper, since a wrapper is
+ * invalid inside lists, tables and paragraphs and would change flex and grid layouts. Only
+ * the first element is marked when a component renders more than one. Output that doesn't
+ * start with an element gets an inline wrapper.
+ */
+export function highlightChange (output: string, change: ComponentChange) {
+  if (!output.trim()) return output
+  const className = `dg-change dg-change-${change.type}`
+  const label = ` data-dg-change="${htmlEncode(changeLabel(change))}"`
+  const m = rootTag.exec(output)
+  if (!m) return `<span class="${className}"${label}>${output}</span>`
+  const [tag, before, tagName, attributes, end] = m
+  const withClass = classAttr.test(attributes)
+    ? attributes.replace(classAttr, (_, prefix: string, dq?: string, sq?: string, bare?: string) => `${prefix}"${(dq ?? sq ?? bare ?? '').replace(/"/g, '&quot;')} ${className}"`)
+    : `${attributes} class="${className}"`
+  return `${before}<${tagName}${withClass}${label}${end}` + output.substring(tag.length)
+}
+
+/**
+ * Removed components aren't in the newer version to be outlined, and the page itself has no
+ * element of its own, so those changes are listed at the top of the page instead.
+ */
+export function unmarkedChangesNotice (changes: ComponentChange[], templateNames: Record<string, string | undefined>) {
+  const pageEdit = changes.find(c => !c.path && c.type === 'edited')
+  const removed = changes.filter(c => c.type === 'removed')
+  const lines = [
+    ...(pageEdit ? [`Page properties edited: ${htmlEncode(pageEdit.fields!.join(', '))}`] : []),
+    ...(removed.length ? [`Removed: ${removed.map(c => htmlEncode(`${templateNames[c.templateKey] ?? c.templateKey} (${c.path})`)).join(', ')}`] : [])
+  ]
+  if (!lines.length) return ''
+  return `<div class="dg-changes-removed">${lines.join('<br>')}</div>`
+}
+
+/**
+ * Remove the parts of a rendered page that should never show up as differences: edit bars,
+ * scripts and the canonical link. The diff is for reading, so losing the scripts is fine.
+ */
+function prepareForDiff (html: string) {
+  const $ = load(html)
+  $('script, link[rel=canonical], dg-edit-bar, dg-new-bar, dg-inherit-bar').remove()
+  // without scripts, async stylesheets would never be switched on
+  $('link[data-dg-async]').attr('media', 'all')
+  return $.html()
+}
+
+function addStyles (html: string, css: string, nonce?: string) {
+  return html.replace(/<\/head>/, `<style${nonceAttr(nonce)}>${css}</style></head>`)
+}
+
+/**
+ * One page with insertions and deletions marked inline
+ */
+export function inlineDiff (fromHTML: string, toHTML: string, nonce?: string) {
+  return addStyles(htmldiff(prepareForDiff(fromHTML), prepareForDiff(toHTML)), 'ins { background-color: lightgreen; } del { background-color: pink; }', nonce)
+}
+
+/**
+ * The older version on the left with deletions marked, the newer on the right with insertions
+ * marked. Both sides come from the same diff, so they line up, and they scroll together.
+ */
+export function sideBySideDiff (fromHTML: string, toHTML: string, fromLabel: string, toLabel: string, nonce?: string) {
+  const diff = htmldiff(prepareForDiff(fromHTML), prepareForDiff(toHTML))
+  const fromDoc = addStyles(diff, 'ins { display: none; } del { background-color: pink; }', nonce)
+  const toDoc = addStyles(diff, 'del { display: none; } ins { background-color: lightgreen; }', nonce)
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${htmlEncode(fromLabel)} compared to ${htmlEncode(toLabel)}</title>
+<style${nonceAttr(nonce)}>
+  html, body { margin: 0; height: 100%; font-family: sans-serif; }
+  .dg-compare { display: flex; height: 100%; }
+  .dg-compare section { flex: 1; display: flex; flex-direction: column; border-left: 1px solid #999; }
+  .dg-compare section:first-child { border-left: 0; }
+  .dg-compare h1 { margin: 0; padding: 0.5em; font-size: 1em; background-color: #eee; }
+  .dg-compare iframe { flex: 1; width: 100%; border: 0; }
+</style>
+</head>
+<body>
+<div class="dg-compare">
+<section><h1>${htmlEncode(fromLabel)}</h1><iframe title="${htmlEncode(fromLabel)}" srcdoc="${htmlEncode(fromDoc)}"></iframe></section>
+<section><h1>${htmlEncode(toLabel)}</h1><iframe title="${htmlEncode(toLabel)}" srcdoc="${htmlEncode(toDoc)}"></iframe></section>
+</div>
+<script${nonceAttr(nonce)}>
+  const frames = Array.from(document.querySelectorAll('.dg-compare iframe'))
+  let following
+  for (const frame of frames) {
+    frame.addEventListener('load', () => {
+      frame.contentWindow.addEventListener('scroll', () => {
+        if (following === frame) return
+        for (const other of frames) {
+          if (other === frame) continue
+          following = other
+          other.contentWindow.scrollTo(frame.contentWindow.scrollX, frame.contentWindow.scrollY)
+        }
+        setTimeout(() => { following = undefined }, 50)
+      })
+    })
+  }
+</script>
+</body>
+</html>`
+}
+
+/**
+ * A table of the changes counted by summarizeChanges
+ */
+export function renderSummary (summary: ChangeSummary, path: string, fromLabel: string, toLabel: string) {
+  const rows = summary.areas.map(a => `<tr><th scope="row">${htmlEncode(a.area)}</th><td>${a.inserted}</td><td>${a.deleted}</td><td>${a.changed}</td></tr>`)
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Changes to ${htmlEncode(path)}</title>
+<style>
+  body { font-family: sans-serif; margin: 1em; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #999; padding: 0.25em 0.75em; text-align: left; }
+  td { text-align: right; }
+</style>
+</head>
+<body>
+<h1>Changes to ${htmlEncode(path)}</h1>
+<p>${htmlEncode(fromLabel)} compared to ${htmlEncode(toLabel)}.${summary.pageChanged ? ' Page properties changed.' : ''}</p>
+${rows.length
+  ? `<table>
+<thead><tr><th scope="col">Area</th><th scope="col">Inserted</th><th scope="col">Deleted</th><th scope="col">Changed</th></tr></thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+<tfoot><tr><th scope="row">Total</th><td>${summary.totals.inserted}</td><td>${summary.totals.deleted}</td><td>${summary.totals.changed}</td></tr></tfoot>
+</table>`
+  : '<p>No components changed.</p>'}
+</body>
+</html>`
+}
@@ -0,0 +1,80 @@
+import type { FastifyReply, FastifyRequest } from 'fastify'
+import { constants, brotliCompress, gzip } from 'node:zlib'
+
+export interface CompressedData {
+  raw: string
+  gzip: Buffer
+  brotli: Buffer
+}
+
+export type ContentEncoding = 'br' | 'gzip'
+
+/**
+ * Rendered output smaller than this many bytes is sent uncompressed, since the savings
+ * would not be worth the CPU time.
+ */
+export const compressThreshold = Number(process.env.DOSGATO_RENDER_COMPRESS_THRESHOLD ?? 1024) || 0
+
+/**
+ * Brotli quality for output compressed per request. 11 is the best compression, but it's far
+ * too slow to use on every render, so we default to something cheaper.
+ */
+const dynamicBrotliQuality = Number(process.env.DOSGATO_RENDER_BROTLI_QUALITY ?? 5) || 5
+
+async function brotli (data: string, quality: number) {
+  return await new Promise<Buffer>((resolve, reject) => {
+    brotliCompress(data, { params: { [constants.BROTLI_PARAM_QUALITY]: quality } }, (err, result) => {
+      if (err) reject(err)
+      else resolve(result)
+    })
+  })
+}
+
+async function gzipData (data: string) {
+  return await new Promise<Buffer>((resolve, reject) => {
+    gzip(data, (err, result) => {
+      if (err) reject(err)
+      else resolve(result)
+    })
+  })
+}
+
+/**
+ * Compress static content as small as it will go. Only appropriate for things we compress
+ * once and serve many times, like registered CSS and JS.
+ */
+export async function compress (data: string): Promise<CompressedData> {
+  const [gzipBuffer, brotliBuffer] = await Promise.all([gzipData(data), brotli(data, 11)])
+  return { raw: data, gzip: gzipBuffer, brotli: brotliBuffer }
+}
+
+/**
+ * Compress rendered output for a single response.
+ */
+export async function compressDynamic (data: string, encoding: ContentEncoding) {
+  return encoding === 'br' ? await brotli(data, dynamicBrotliQuality) : await gzipData(data)
+}
+
+export function preferredEncoding (req: FastifyRequest): ContentEncoding | undefined {
+  if (/\bbr\b/.test(req.headers['accept-encoding'] ?? '')) return 'br'
+  if (/\bgzip\b/.test(req.headers['accept-encoding'] ?? '')) return 'gzip'
+  return undefined
+}
+
+/**
+ * Send content that was compressed ahead of time, picking whichever encoding the client
+ * prefers.
+ */
+export function sendPrecompressed (req: FastifyRequest, res: FastifyReply, data: CompressedData) {
+  void res.header('Vary', 'Accept-Encoding')
+  const encoding = preferredEncoding(req)
+  if (encoding === 'br') {
+    void res.header('Content-Encoding', 'br')
+    return data.brotli
+  }
+  if (encoding === 'gzip') {
+    void res.header('Content-Encoding', 'gzip')
+    return data.gzip
+  }
+  return data.raw
+}
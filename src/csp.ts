@@ -0,0 +1,61 @@
+import { createHash, randomBytes } from 'node:crypto'
+import { isNotBlank } from 'txstate-utils'
+import type { RenderingAPIClient } from './api.js'
+import type { RenderReply } from './render.js'
+
+/**
+ * Content-Security-Policy for each render context, from DOSGATO_RENDER_CSP_LIVE,
+ * DOSGATO_RENDER_CSP_PREVIEW and DOSGATO_RENDER_CSP_EDIT. No header is sent for a context
+ * that isn't configured.
+ *
+ * `{nonce}` in a policy is replaced with the request's nonce source, e.g.
+ * `script-src 'self' {nonce}; style-src 'self' {nonce}`
+ */
+const policies = {
+  live: process.env.DOSGATO_RENDER_CSP_LIVE,
+  preview: process.env.DOSGATO_RENDER_CSP_PREVIEW,
+  edit: process.env.DOSGATO_RENDER_CSP_EDIT
+}
+
+/**
+ * Set DOSGATO_RENDER_CSP_REPORT_ONLY=true to have browsers report violations without
+ * blocking anything while a policy is being rolled out.
+ */
+const headerName = process.env.DOSGATO_RENDER_CSP_REPORT_ONLY === 'true' ? 'Content-Security-Policy-Report-Only' : 'Content-Security-Policy'
+
+/**
+ * Whether the policy for a render context asks for a nonce. Nothing needs one when it doesn't.
+ */
+export function policyUsesNonce (context: keyof typeof policies) {
+  return !!policies[context]?.includes('{nonce}')
+}
+
+export function createNonce () {
+  return randomBytes(16).toString('base64')
+}
+
+/**
+ * The nonce attribute for an inline script or style the render server generates
+ */
+export function nonceAttr (nonce: string | undefined) {
+  return nonce ? ` nonce="${nonce}"` : ''
+}
+
+/**
+ * Send the configured policy for the render's context, if there is one.
+ *
+ * Live renders may be cached and replayed with their headers, so the render cache swaps in a
+ * fresh nonce each time it sends one, see RenderCache.send.
+ */
+export function setContentSecurityPolicy (api: RenderingAPIClient, res: RenderReply) {
+  const policy = policies[api.context]
+  if (isNotBlank(policy)) res.header(headerName, policy.replace(/\{nonce\}/g, () => `'nonce-${api.cspNonce!}'`))
+}
+
+/**
+ * Value for an integrity attribute, so browsers refuse a CSS or JS file that doesn't match
+ * what we rendered the page with
+ */
+export function subresourceIntegrity (content: string) {
+  return 'sha384-' + createHash('sha384').update(content).digest('base64')
+}
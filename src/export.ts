@@ -0,0 +1,203 @@
+import type { PageForNavigation, SiteInfo } from '@dosgato/templating'
+import { load } from 'cheerio'
+import { mkdir, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { eachConcurrent, isNotBlank } from 'txstate-utils'
+import { RenderingAPIClient, download } from './api.js'
+import type { RenderingServer } from './server.js'
+import { flattenNavigation } from './util.js'
+
+export interface ExportOptions {
+  /**
+   * The launch URL of the site to export, e.g. https://www.example.edu/ or
+   * https://www.example.edu/history/
+   */
+  launchUrl: string
+  /**
+   * The directory to write the export into. It represents the root of the hostname, so
+   * a site launched at /history/ will be written into a history subdirectory.
+   */
+  outDir: string
+  /**
+   * Variations to export in addition to html, e.g. ['rss']
+   */
+  variations?: string[]
+  /**
+   * How many pages to render at a time, default 4
+   */
+  concurrency?: number
+}
+
+export interface ExportResult {
+  pages: number
+  files: number
+  errors: string[]
+}
+
+/**
+ * Freezes a launched site into a directory of static files that a plain web server can serve.
+ *
+ * Every published page is requested from the server's own live route (without opening a port),
+ * so the export goes through exactly the same rendering as a real visitor would get. Anything
+ * the pages reference from /.resources/ or the live asset server is copied alongside them, and
+ * links between them are rewritten to relative paths.
+ */
+export class SiteExporter {
+  protected queued = new Set<string>()
+  protected resources: string[] = []
+  protected origin!: string
+  protected hostname!: string
+  protected assetBase = process.env.DOSGATO_ASSET_LIVE_BASE?.replace(/\/+$/, '')
+  protected result: ExportResult = { pages: 0, files: 0, errors: [] }
+
+  constructor (protected server: RenderingServer, protected opts: ExportOptions) {}
+
+  async run () {
+    const launchUrl = new URL(this.opts.launchUrl)
+    this.origin = launchUrl.origin
+    this.hostname = launchUrl.hostname
+    const api = new RenderingAPIClient(true)
+    api.context = 'live'
+    const site = await api.getSiteInfoByLaunchUrl(`http://${this.hostname}${launchUrl.pathname}`)
+    if (!site) throw new Error(`No site is launched at ${this.opts.launchUrl}`)
+    api.siteId = site.id
+    api.sitename = site.name
+    api.pagetreeId = site.primaryPagetree.id
+    api.sitePrefix = site.url.prefix
+
+    // getNavigation records include the site and pagetree even though PageForNavigation doesn't say so
+    const pages = flattenNavigation(await api.getNavigation({ published: true })) as (PageForNavigation & { site: SiteInfo, pagetree: { id: string } })[]
+    const pageUrls = pages.flatMap(p => [
+      api.getHref(p),
+      ...(this.opts.variations ?? []).map(extension => api.getHref(p, { extension }))
+    ])
+    const extraUrls = [site.url.path + 'sitemap.xml', ...(site.url.path === '/' ? ['/robots.txt'] : [])]
+    for (const url of [...pageUrls, ...extraUrls]) this.queued.add(url)
+
+    await eachConcurrent(pageUrls, this.opts.concurrency ?? 4, async url => {
+      if (await this.exportUrl(url)) this.result.pages++
+    })
+    for (const url of extraUrls) await this.exportUrl(url)
+    // exporting CSS can discover more resources like fonts, so the list may grow as we go
+    for (const url of this.resources) await this.exportResource(url)
+    return this.result
+  }
+
+  /**
+   * Map a site-relative URL to a path inside the export, e.g. / becomes /index.html and
+   * an asset URL becomes something under /.asset/
+   */
+  protected localPath (url: string) {
+    const withoutQuery = url.split(/[?#]/)[0]
+    const assetPath = this.assetBase && withoutQuery.startsWith(this.assetBase) ? '/.asset' + withoutQuery.substring(this.assetBase.length) : withoutQuery
+    const decoded = decodeURIComponent(assetPath)
+    const normalized = path.posix.normalize(decoded.endsWith('/') ? decoded + 'index.html' : decoded)
+    return normalized.startsWith('/') ? normalized : '/' + normalized
+  }
+
+  protected async write (localPath: string, data: string | Buffer) {
+    const root = path.resolve(this.opts.outDir)
+    const filePath = path.resolve(root, '.' + localPath)
+    if (!filePath.startsWith(root + path.sep)) throw new Error(`Refusing to write ${localPath} outside the export directory.`)
+    await mkdir(path.dirname(filePath), { recursive: true })
+    await writeFile(filePath, data)
+    this.result.files++
+  }
+
+  protected async inject (url: string) {
+    const resp = await this.server.app.inject({ method: 'GET', url, headers: { host: this.hostname } })
+    if (resp.statusCode !== 200) {
+      this.result.errors.push(`${url} returned status ${resp.statusCode}`)
+      return undefined
+    }
+    return resp
+  }
+
+  protected async exportUrl (url: string) {
+    const resp = await this.inject(url)
+    if (!resp) return false
+    const localPath = this.localPath(url)
+    const contentType = String(resp.headers['content-type'] ?? '')
+    if (contentType.includes('text/html')) await this.write(localPath, this.rewriteHtml(resp.body, localPath))
+    else await this.write(localPath, resp.rawPayload)
+    return true
+  }
+
+  protected async exportResource (url: string) {
+    const localPath = this.localPath(url)
+    if (url.startsWith('/')) {
+      const resp = await this.inject(url)
+      if (!resp) return
+      if (String(resp.headers['content-type'] ?? '').includes('text/css')) await this.write(localPath, this.rewriteCss(resp.body, localPath))
+      else await this.write(localPath, resp.rawPayload)
+    } else {
+      const resp = await download(url, undefined, {})
+      if (!resp.ok) {
+        this.result.errors.push(`${url} returned status ${resp.status}`)
+        return
+      }
+      await this.write(localPath, Buffer.from(await resp.arrayBuffer()))
+    }
+  }
+
+  /**
+   * Decide what to do with a URL found in exported content. Returns a relative URL to
+   * put in its place, or undefined to leave it alone.
+   */
+  protected rewriteUrl (url: string, fromLocalPath: string) {
+    url = url.trim()
+    if (isNotBlank(this.assetBase) && url.startsWith(this.assetBase + '/')) {
+      this.queueResource(url)
+    } else {
+      if (url.startsWith(this.origin + '/')) url = url.substring(this.origin.length)
+      if (!url.startsWith('/') || url.startsWith('//')) return undefined
+      if (url.startsWith('/.resources/')) this.queueResource(url)
+      else if (!this.queued.has(url.split(/[?#]/)[0])) return undefined
+    }
+    const hash = url.includes('#') ? '#' + url.split('#')[1] : ''
+    const relative = path.posix.relative(path.posix.dirname(fromLocalPath), this.localPath(url))
+    return encodeURI(relative || path.posix.basename(fromLocalPath)) + hash
+  }
+
+  protected queueResource (url: string) {
+    const withoutQuery = url.split(/[?#]/)[0]
+    if (this.queued.has(withoutQuery)) return
+    this.queued.add(withoutQuery)
+    this.resources.push(withoutQuery)
+  }
+
+  protected rewriteHtml (html: string, localPath: string) {
+    const $ = load(html)
+    for (const el of $('[href],[src],[poster]')) {
+      const $el = $(el)
+      // the canonical link should keep pointing at the real site
+      if ($el.is('link[rel=canonical]')) continue
+      for (const attr of ['href', 'src', 'poster']) {
+        const value = $el.attr(attr)
+        if (value == null) continue
+        const rewritten = this.rewriteUrl(value, localPath)
+        if (rewritten == null) continue
+        $el.attr(attr, rewritten)
+        // stylesheets get their url()s rewritten too, see rewriteCss, so they would no longer
+        // match their integrity hash
+        if (this.localPath(value).endsWith('.css')) $el.removeAttr('integrity').removeAttr('crossorigin')
+      }
+    }
+    for (const el of $('[srcset]')) {
+      const $el = $(el)
+      const srcset = $el.attr('srcset')!.split(',').map(candidate => {
+        const [url, ...descriptor] = candidate.trim().split(/\s+/)
+        return [this.rewriteUrl(url, localPath) ?? url, ...descriptor].join(' ')
+      })
+      $el.attr('srcset', srcset.join(', '))
+    }
+    return $.html()
+  }
+
+  protected rewriteCss (css: string, localPath: string) {
+    return css.replace(/url\((['"]?)(.*?)\1\)/g, (match, quote: string, url: string) => {
+      const rewritten = this.rewriteUrl(url, localPath)
+      return rewritten != null ? `url(${quote}${rewritten}${quote})` : match
+    })
+  }
+}
@@ -0,0 +1,61 @@
+import { htmlEncode } from 'txstate-utils'
+import type { RenderingAPIClient } from './api.js'
+import type { RenderReply } from './render.js'
+
+/**
+ * Build a page listing every version of a page, newest first, with links to preview each
+ * version and to compare it with the version before it. Returns undefined when the page
+ * doesn't exist or the user isn't allowed to see it.
+ *
+ * `path` is the page path without extension, e.g. /site/about/staff
+ */
+export async function renderHistory (api: RenderingAPIClient, res: RenderReply, token: string, path: string) {
+  const page = await api.getPageVersions(token, path)
+  if (!page) return undefined
+  const versions = [...page.versions].sort((a, b) => b.version - a.version)
+  const publicVersion = versions.find(v => v.tags.includes('published'))
+  const href = encodeURI(page.path) + '.html'
+  const rows = versions.map((v, i) => {
+    const date = new Date(v.date)
+    const previous = versions[i + 1]
+    const markers = [
+      ...(i === 0 ? ['Latest'] : []),
+      ...(v === publicVersion ? ['Public'] : v.tags.includes('published') ? ['Published'] : [])
+    ]
+    return `<tr${v.tags.includes('published') ? ' class="published"' : ''}>
+<th scope="row">${v.version}</th>
+<td><time datetime="${date.toISOString()}">${htmlEncode(date.toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' }))}</time></td>
+<td>${htmlEncode(v.user?.name ?? v.user?.id ?? '')}</td>
+<td>${htmlEncode(v.comment)}</td>
+<td>${markers.map(m => `<span class="marker marker-${m.toLowerCase()}">${m}</span>`).join(' ')}</td>
+<td><a href="/.preview/${v.version}${href}">Preview</a>${previous ? ` <a href="/.compare/${previous.version}/${v.version}${href}">Compare with ${previous.version}</a>` : ''}</td>
+</tr>`
+  })
+  res.type('text/html')
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>History of ${htmlEncode(page.fallbackTitle || page.name)}</title>
+<style>
+  body { font-family: sans-serif; margin: 1em; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #999; padding: 0.25em 0.75em; text-align: left; vertical-align: top; }
+  tr.published { background-color: #eef7ee; }
+  .marker { display: inline-block; padding: 0 0.4em; border-radius: 0.3em; font-size: 0.85em; color: white; background-color: #555; }
+  .marker-public { background-color: #2e7d32; }
+  .marker-published { background-color: #689f38; }
+</style>
+</head>
+<body>
+<h1>History of ${htmlEncode(page.fallbackTitle || page.name)}</h1>
+<p>${htmlEncode(page.path)}</p>
+<table>
+<thead><tr><th scope="col">Version</th><th scope="col">Date</th><th scope="col">Author</th><th scope="col">Comment</th><th scope="col">Status</th><th scope="col">Links</th></tr></thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>
+</body>
+</html>`
+}
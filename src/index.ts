@@ -1,4 +1,11 @@
 export * from './api.js'
+export * from './csp.js'
+export * from './export.js'
+export * from './linkcheck.js'
+export * from './metrics.js'
+export * from './pagecache.js'
+export * from './richtext.js'
+export * from './sanitize.js'
 export * from './server.js'
 export * from './util.js'
 export * from './version.js'
@@ -0,0 +1,173 @@
+import { eachConcurrent, isNotBlank } from 'txstate-utils'
+import { type LinkReference, RenderingAPIClient } from './api.js'
+import type { RenderingServer } from './server.js'
+import { checkUrl } from './urlcheck.js'
+import { flattenNavigation } from './util.js'
+
+export interface LinkCheckOptions {
+  /**
+   * The user's token. Every page is rendered as this user, like a preview.
+   */
+  token: string
+  /**
+   * The page to start from, e.g. the pagetree root page for a whole site. Everything beneath
+   * it is checked too.
+   */
+  root: { path: string, site: { id: string, name: string }, pagetree: { id: string } }
+  /**
+   * Check the published version of each page instead of the latest
+   */
+  published?: boolean
+  /**
+   * Also send a request to every link to another website and report the ones that fail
+   */
+  checkExternal?: boolean
+  /**
+   * How many pages to render at a time, default 4
+   */
+  concurrency?: number
+  /**
+   * How many external links to check at a time, default 8
+   */
+  externalConcurrency?: number
+  /**
+   * Stop after this many pages, default DOSGATO_RENDER_LINKCHECK_MAX_PAGES or 1000
+   */
+  maxPages?: number
+}
+
+const defaultMaxPages = Number(process.env.DOSGATO_RENDER_LINKCHECK_MAX_PAGES ?? 0) || 1000
+
+export interface LinkProblem extends LinkReference {
+  /**
+   * For external links, the status code the other website responded with
+   */
+  status?: number
+  /**
+   * For external links that got no response at all, what went wrong
+   */
+  error?: string
+}
+
+export interface LinkCheckReport {
+  root: string
+  published: boolean
+  pagesChecked: number
+  /**
+   * True when there were more pages than maxPages, so some were never checked
+   */
+  truncated: boolean
+  problemCount: number
+  /**
+   * Only pages with problems are listed, and problems are grouped by the component that
+   * produced them
+   */
+  pages: {
+    path: string
+    components: { componentPath: string | undefined, problems: LinkProblem[] }[]
+  }[]
+  /**
+   * Pages that could not be rendered
+   */
+  errors: string[]
+}
+
+/**
+ * Finds every broken link in a site or part of one.
+ *
+ * Each page is requested from the server's own broken link route (without opening a port),
+ * so links are resolved exactly as they would be in a preview, and each broken link comes
+ * back with the component that produced it. Links to other websites can optionally be
+ * checked with a HEAD request, each distinct URL only once.
+ *
+ * The list of pages comes from the render service's own access, so pages the user isn't
+ * allowed to see are left out of the report entirely rather than reported as errors.
+ */
+export class LinkChecker {
+  protected problems = new Map<string, LinkProblem[]>()
+  protected external = new Map<string, { page: string, link: LinkReference }[]>()
+  protected errors: string[] = []
+  protected checked = new Set<string>()
+
+  constructor (protected server: RenderingServer, protected opts: LinkCheckOptions) {}
+
+  async run (): Promise<LinkCheckReport> {
+    const { root, published } = this.opts
+    const api = new RenderingAPIClient(!!published)
+    api.context = 'preview'
+    api.siteId = root.site.id
+    api.sitename = root.site.name
+    api.pagetreeId = root.pagetree.id
+    const allPaths = new Set([root.path, ...flattenNavigation(await api.getNavigation({ beneath: root.path, published })).map(p => p.path)])
+    const maxPages = this.opts.maxPages ?? defaultMaxPages
+    const paths = Array.from(allPaths).slice(0, maxPages)
+
+    await eachConcurrent(paths, this.opts.concurrency ?? 4, async path => { await this.checkPage(path) })
+    if (this.opts.checkExternal) {
+      await eachConcurrent(Array.from(this.external.entries()), this.opts.externalConcurrency ?? 8, async ([url, uses]) => {
+        const result = await checkUrl(url)
+        if (!result) return
+        for (const { page, link } of uses) this.addProblem(page, { ...link, ...result })
+      })
+    }
+
+    const pages = paths.filter(path => this.problems.has(path)).map(path => {
+      const problems = this.problems.get(path)!
+      const componentPaths = Array.from(new Set(problems.map(p => p.componentPath)))
+      return { path, components: componentPaths.map(componentPath => ({ componentPath, problems: problems.filter(p => p.componentPath === componentPath) })) }
+    })
+    return {
+      root: root.path,
+      published: !!published,
+      pagesChecked: this.checked.size,
+      truncated: allPaths.size > maxPages,
+      problemCount: Array.from(this.problems.values()).reduce((sum, problems) => sum + problems.length, 0),
+      pages,
+      errors: this.errors
+    }
+  }
+
+  protected addProblem (page: string, problem: LinkProblem) {
+    if (!this.problems.has(page)) this.problems.set(page, [])
+    this.problems.get(page)!.push(problem)
+  }
+
+  protected async checkPage (path: string) {
+    const url = `/.brokenlinks/${this.opts.published ? 'public' : 'latest'}${encodeURI(path)}.html`
+    const resp = await this.server.app.inject({ method: 'GET', url, headers: { authorization: `Bearer ${this.opts.token}` } })
+    // don't reveal that a page the user can't see exists
+    if ([401, 403, 404].includes(resp.statusCode)) return
+    this.checked.add(path)
+    if (resp.statusCode !== 200) {
+      this.errors.push(`${path} returned status ${resp.statusCode}`)
+      return
+    }
+    const { links, external } = resp.json<{ links: LinkReference[], external: LinkReference[] }>()
+    for (const link of links) this.addProblem(path, link)
+    for (const link of external) {
+      if (!isNotBlank(link.href)) continue
+      if (!this.external.has(link.href)) this.external.set(link.href, [])
+      this.external.get(link.href)!.push({ page: path, link })
+    }
+  }
+}
+
+function csvField (value: string | number | undefined) {
+  let str = String(value ?? '')
+  // editors control link targets, and spreadsheets run anything that looks like a formula
+  if (/^[=+\-@\t\r]/.test(str)) str = "'" + str
+  return /[",\n\r]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str
+}
+
+/**
+ * One row per problem, for opening the report in a spreadsheet
+ */
+export function linkReportToCsv (report: LinkCheckReport) {
+  const rows = [['page', 'component', 'type', 'target', 'href', 'status', 'error']]
+  for (const page of report.pages) {
+    for (const { componentPath, problems } of page.components) {
+      for (const p of problems) rows.push([page.path, componentPath ?? '', p.type, p.target, p.href ?? '', p.status == null ? '' : String(p.status), p.error ?? ''])
+    }
+  }
+  return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n'
+}
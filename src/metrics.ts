@@ -0,0 +1,61 @@
+import { Counter, Histogram, Registry, collectDefaultMetrics } from 'prom-client'
+
+/**
+ * Prometheus metrics for the rendering server, served in text format at /metrics.
+ *
+ * Everything lives in its own registry so that an application embedding the render server
+ * can keep using prom-client's global registry for its own metrics without collisions.
+ */
+export const metricsRegistry = new Registry()
+collectDefaultMetrics({ register: metricsRegistry, prefix: 'dosgato_render_' })
+
+export const renderCounter = new Counter({
+  name: 'dosgato_render_renders_total',
+  help: 'Completed page renders.',
+  labelNames: ['context', 'status', 'extension'] as const,
+  registers: [metricsRegistry]
+})
+
+export const renderPhaseHistogram = new Histogram({
+  name: 'dosgato_render_phase_duration_seconds',
+  help: 'Time spent in each phase of a page render.',
+  labelNames: ['context', 'phase'] as const,
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+  registers: [metricsRegistry]
+})
+
+export const graphqlHistogram = new Histogram({
+  name: 'dosgato_render_graphql_duration_seconds',
+  help: 'Latency of GraphQL queries to the DosGato API by operation name. The _count series is the number of queries.',
+  labelNames: ['operation'] as const,
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+  registers: [metricsRegistry]
+})
+
+export const componentErrorCounter = new Counter({
+  name: 'dosgato_render_component_errors_total',
+  help: 'Errors thrown by components during fetch, context or render.',
+  labelNames: ['templateKey'] as const,
+  registers: [metricsRegistry]
+})
+
+export const assetProxyBytesCounter = new Counter({
+  name: 'dosgato_render_asset_proxy_bytes_total',
+  help: 'Bytes of asset downloads proxied through /.asset/',
+  registers: [metricsRegistry]
+})
+
+export const templateCacheCounter = new Counter({
+  name: 'dosgato_render_template_cache_total',
+  help: 'Lookups of template information, by whether they had to be fetched from the API.',
+  labelNames: ['result'] as const,
+  registers: [metricsRegistry]
+})
+
+/**
+ * Pull the operation name out of a GraphQL query so latency can be broken down without
+ * using the whole query text as a label.
+ */
+export function operationName (query: string) {
+  return /^\s*(?:query|mutation)\s+(\w+)/.exec(query)?.[1] ?? 'anonymous'
+}
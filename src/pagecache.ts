@@ -0,0 +1,262 @@
+import type { FastifyReply } from 'fastify'
+import { Cache, type SyncStorageEngine } from 'txstate-utils'
+import type { ContentEncoding } from './compression.js'
+import { createNonce } from './csp.js'
+import type { RenderReply } from './render.js'
+import { stripTrackerParams } from './util.js'
+
+export interface CachedRender {
+  status: number
+  headers: Record<string, string>
+  body: string
+  /**
+   * Identifiers for the records that went into this render, used to find the entry
+   * again when something is purged. These are the dependencies tracked by the
+   * RenderingAPIClient, formatted like `page:<id>` or `asset:<id>`.
+   */
+  tags: string[]
+  /**
+   * When the render began. A purge that arrives while a render is in flight must win,
+   * so we refuse to store anything that started at or before the most recent matching purge.
+   */
+  startedAt: number
+  renderedAt: number
+  /**
+   * The CSP nonce the render used, if any. Visitors must not share a nonce, so it is
+   * replaced with a fresh one every time the render is sent.
+   */
+  nonce?: string
+  /**
+   * Compressed copies of the body, filled in as clients ask for them
+   */
+  encoded?: Partial<Record<ContentEncoding, Buffer>>
+}
+
+interface StoredRender {
+  fetched: Date
+  data: CachedRender
+}
+
+/**
+ * Captures everything renderPage would have done to the fastify reply so that it can
+ * be stored and replayed later for other requests.
+ */
+export class RenderRecorder implements RenderReply {
+  statusCode = 200
+  headers = new Map<string, string>()
+  startedAt = Date.now()
+
+  type (contentType: string) {
+    this.headers.set('content-type', contentType)
+    return this
+  }
+
+  header (key: string, value: any) {
+    this.headers.set(key.toLowerCase(), String(value))
+    return this
+  }
+
+  removeHeader (key: string) {
+    this.headers.delete(key.toLowerCase())
+    return this
+  }
+
+  status (statusCode: number) {
+    this.statusCode = statusCode
+    return this
+  }
+
+  finish (body: string, tags: string[], nonce?: string): CachedRender {
+    return { status: this.statusCode, headers: Object.fromEntries(this.headers), body, tags, startedAt: this.startedAt, renderedAt: Date.now(), nonce }
+  }
+}
+
+/**
+ * Purges are only remembered long enough to catch renders that were in flight when they
+ * happened. Renders slower than this are refused by the cache instead.
+ */
+const purgeMemoryMs = 5 * 60 * 1000
+
+/**
+ * Storage engine for the render cache. Entries are evicted least-recently-used once we
+ * pass maxEntries, and every entry is indexed by its tags so that a purge can find it.
+ */
+class RenderCacheStorage implements SyncStorageEngine<StoredRender> {
+  protected entries = new Map<string, StoredRender>()
+  protected keysByTag = new Map<string, Set<string>>()
+  protected purgedAt = new Map<string, number>()
+  protected clearedAt = 0
+  /**
+   * The newest purge we've forgotten. Any render that started before it might have missed
+   * that purge, so it can't be stored.
+   */
+  protected forgottenAt = 0
+
+  constructor (protected maxEntries: number) {}
+
+  get (keystr: string) {
+    const stored = this.entries.get(keystr)
+    if (stored) {
+      // move to the back of the line so it's the last to be evicted
+      this.entries.delete(keystr)
+      this.entries.set(keystr, stored)
+    }
+    return stored
+  }
+
+  set (keystr: string, stored: StoredRender) {
+    const { startedAt, tags } = stored.data
+    if (startedAt <= this.clearedAt || startedAt <= this.forgottenAt || tags.some(t => startedAt <= (this.purgedAt.get(t) ?? 0))) return
+    this.del(keystr)
+    this.entries.set(keystr, stored)
+    for (const tag of tags) {
+      if (!this.keysByTag.has(tag)) this.keysByTag.set(tag, new Set())
+      this.keysByTag.get(tag)!.add(keystr)
+    }
+    while (this.entries.size > this.maxEntries) this.del(this.entries.keys().next().value!)
+  }
+
+  del (keystr: string) {
+    const stored = this.entries.get(keystr)
+    if (!stored) return
+    this.entries.delete(keystr)
+    for (const tag of stored.data.tags) {
+      const keys = this.keysByTag.get(tag)
+      keys?.delete(keystr)
+      if (!keys?.size) this.keysByTag.delete(tag)
+    }
+  }
+
+  clear () {
+    this.entries.clear()
+    this.keysByTag.clear()
+    this.purgedAt.clear()
+    this.clearedAt = Date.now()
+  }
+
+  purge (tag: string) {
+    const now = Date.now()
+    // the map is in purge order, so forgetting old purges stops at the first recent one
+    for (const [oldtag, purgedAt] of this.purgedAt) {
+      if (purgedAt > now - purgeMemoryMs) break
+      this.purgedAt.delete(oldtag)
+      this.forgottenAt = Math.max(this.forgottenAt, purgedAt)
+    }
+    // delete first so that a repeated purge moves to the end of the order
+    this.purgedAt.delete(tag)
+    this.purgedAt.set(tag, now)
+    for (const keystr of Array.from(this.keysByTag.get(tag) ?? [])) this.del(keystr)
+  }
+
+  get size () {
+    return this.entries.size
+  }
+}
+
+/**
+ * In-process cache of rendered output from the live route.
+ *
+ * Anonymous traffic to launched sites can be heavy and every render hits the API several
+ * times, so we hang on to the output and serve it stale while a fresh copy renders in the
+ * background. Preview and edit renders must never come through here.
+ *
+ * The cache is disabled unless DOSGATO_RENDER_CACHE_SECONDS is set. Note that each render
+ * replica has its own cache, so purges must be sent to every replica.
+ */
+export class RenderCache {
+  public freshseconds: number
+  public staleseconds: number
+  protected storage: RenderCacheStorage
+  protected cache: Cache<string, CachedRender, () => Promise<CachedRender>>
+
+  constructor (opts?: { freshseconds?: number, staleseconds?: number, maxEntries?: number }) {
+    this.freshseconds = opts?.freshseconds ?? 0
+    this.staleseconds = opts?.staleseconds ?? 0
+    this.storage = new RenderCacheStorage(opts?.maxEntries ?? 5000)
+    this.cache = new Cache(async (key: string, render: () => Promise<CachedRender>) => await render(), {
+      freshseconds: this.freshseconds,
+      // txstate-utils expects staleseconds to include the fresh period
+      staleseconds: this.freshseconds + this.staleseconds,
+      storageClass: this.storage
+    })
+  }
+
+  get enabled () {
+    return this.freshseconds > 0
+  }
+
+  /**
+   * Build a cache key for a live request. Query parameters are part of the key since templates
+   * can read them, but known tracker parameters are dropped and the rest sorted so that
+   * marketing links don't each get their own copy of the page.
+   */
+  key (hostname: string, path: string, extension: string | undefined, search: string) {
+    const query = stripTrackerParams(search).replace(/^\?/, '').split('&').filter(Boolean).sort().join('&')
+    return `${hostname.toLocaleLowerCase()}${path}.${extension ?? 'html'}${query ? '?' + query : ''}`
+  }
+
+  /**
+   * Return the cached render for the key, or run the render function to produce it. A stale
+   * entry is returned immediately while the render function runs in the background.
+   */
+  async get (key: string, render: () => Promise<CachedRender>) {
+    const entry = await this.cache.get(key, render)
+    if (!this.cacheable(entry)) await this.cache.invalidate(key)
+    return entry
+  }
+
+  /**
+   * Templates can opt a page out of the cache by sending their own Cache-Control header, and
+   * we never want to hold on to errors or responses that set cookies.
+   */
+  protected cacheable (entry: CachedRender) {
+    if (entry.status >= 500) return false
+    if (entry.headers['set-cookie'] != null) return false
+    return !/\b(no-store|private)\b/i.test(entry.headers['cache-control'] ?? '')
+  }
+
+  /**
+   * Write a cached render to the reply and return its body. A render with a CSP nonce gets a
+   * fresh one in both its body and headers, so its compressed copies can't be reused.
+   */
+  send (entry: CachedRender, res: FastifyReply) {
+    const nonce = entry.nonce && createNonce()
+    const withNonce = (value: string) => nonce ? value.replaceAll(entry.nonce!, nonce) : value
+    for (const [key, value] of Object.entries(entry.headers)) {
+      if (key === 'content-type') void res.type(value)
+      else void res.header(key, withNonce(value))
+    }
+    void res.header('Age', Math.max(0, Math.floor((Date.now() - entry.renderedAt) / 1000)))
+    void res.status(entry.status)
+    return withNonce(entry.body)
+  }
+
+  purgePages (pageIds: string[]) {
+    for (const id of pageIds) this.storage.purge(`page:${id}`)
+  }
+
+  purgeSites (siteIds: string[]) {
+    for (const id of siteIds) this.storage.purge(`site:${id}`)
+  }
+
+  /**
+   * Purge by any tag the RenderingAPIClient tracks, e.g. `asset:<id>` or `datafolder:<id>`
+   */
+  purgeTags (tags: string[]) {
+    for (const tag of tags) this.storage.purge(tag)
+  }
+
+  purgeAll () {
+    this.storage.clear()
+  }
+
+  get size () {
+    return this.storage.size
+  }
+}
+
+export const renderCache = new RenderCache({
+  freshseconds: Number(process.env.DOSGATO_RENDER_CACHE_SECONDS ?? 0) || 0,
+  staleseconds: Number(process.env.DOSGATO_RENDER_CACHE_STALE_SECONDS ?? 0) || 0,
+  maxEntries: Number(process.env.DOSGATO_RENDER_CACHE_MAX_ENTRIES ?? 0) || undefined
+})
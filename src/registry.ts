@@ -2,14 +2,18 @@ import { type PageRecord, Page, type Component, type ResourceProvider, type Comp
 import { type Cheerio, load } from 'cheerio'
 import type { Element } from 'domhandler'
 import { transform } from 'esbuild'
+import { createHash } from 'node:crypto'
 import { readFileSync, statSync } from 'node:fs'
 import mime from 'mime-types'
 import { compileString } from 'sass'
 import semver from 'semver'
 import { isBlank, isNotBlank } from 'txstate-utils'
 import type { RenderingAPIClient } from './api.js'
+import { type CompressedData, compress } from './compression.js'
+import { subresourceIntegrity } from './csp.js'
+import { applyLinkPolicy, enhanceImages, missingAltNotice } from './richtext.js'
+import { type SanitizeOptions, policyFor, sanitize, strippedNotice } from './sanitize.js'
 import { detectMimeType } from './util.js'
-import { resourceversion } from './version.js'
 
 function versionGreater (v2: string | undefined, v1: string | undefined) {
   if (v2 == null) return false
@@ -23,6 +27,43 @@ function versionBreaking (v2: string | undefined, v1: string | undefined) {
   return semver.major(v1) !== semver.major(v2)
 }
 
+/**
+ * Tell editors about anything the sanitizer removed. Nothing is shown outside edit mode, the
+ * content is simply gone.
+ */
+function reportStripped (component: Component, stripped: string[]) {
+  if (!stripped.length || !component.editMode) return ''
+  console.warn(`Sanitized HTML in ${component.data.templateKey} component at ${component.path}, removed ${stripped.join(', ')}`)
+  return strippedNotice(stripped)
+}
+
+/**
+ * Remind editors to describe their images. Only shown in edit mode.
+ */
+function reportMissingAlt (component: Component, missingAlt: string[]) {
+  if (!missingAlt.length || !component.editMode) return ''
+  return missingAltNotice(missingAlt)
+}
+
+/**
+ * Resources are served at /.resources/<hash>/<name>, using a hash of their content, so that
+ * browsers can cache them forever and only download them again when they actually change.
+ */
+function contentHash (content: string | Buffer) {
+  return createHash('sha256').update(content).digest('hex').substring(0, 12)
+}
+
+declare module '@dosgato/templating' {
+  interface CSSBlock {
+    /**
+     * Put this CSS directly in a <style> in the page's head instead of linking to it, no
+     * matter its size. Meant for small, critical CSS that styles whatever is at the top of the
+     * page. See also DOSGATO_RENDER_INLINE_CSS_THRESHOLD.
+     */
+    inline?: boolean
+  }
+}
+
 export interface RegistryCSSBlock extends CSSBlock {
   fontfiles?: {
     href: string
@@ -30,17 +71,27 @@ export interface RegistryCSSBlock extends CSSBlock {
   }[]
   map?: string
   size: number
+  compressed?: CompressedData
+  hash?: string
+  href?: string
+  integrity?: string
 }
 
 export interface RegistryJSBlock extends JSBlock {
   map?: string
   size: number
+  compressed?: CompressedData
+  hash?: string
+  href?: string
+  integrity?: string
 }
 
 export interface RegistryFile extends FileDeclaration {
   size: number
   mime: string
   extension?: string
+  hash: string
+  href: string
 }
 
 export type RegistrySCSSInclude = SCSSInclude & { scss: string }
@@ -120,8 +171,12 @@ export class TemplateRegistry {
     }
     template.prototype.renderRichText = function (text: string | undefined, opts?: { headerLevel?: number, advanceHeader?: string | null }) {
       if (isBlank(text)) return ''
-      text = replaceLinksInText(text, (this.api as unknown as RenderingAPIClient).resolvedLinks)
+      const api = this.api as unknown as RenderingAPIClient
+      text = replaceLinksInText(text, api.resolvedLinks)
       const $ = load(text, undefined, false)
+      const stripped = sanitize($, policyFor(template as typeof template & SanitizeOptions))
+      const missingAlt = enhanceImages($, api.resolvedImages)
+      applyLinkPolicy($, api.linkKinds, api.linkPolicy)
       const headerLevel = (opts?.headerLevel ?? (this.renderCtx.headerLevel as number) ?? 2) + (isNotBlank(opts?.advanceHeader) ? 1 : 0)
       const allHeaders = $('h1,h2,h3,h4,h5,h6')
       for (const header of allHeaders) {
@@ -129,12 +184,14 @@ export class TemplateRegistry {
         if (text.length < 1) $(header).remove()
       }
       processHeaders(true, headerLevel, headerLevel - 1, 0, allHeaders, headerLevel)
-      return $.html() ?? ''
+      return reportStripped(this, stripped) + reportMissingAlt(this, missingAlt) + ($.html() ?? '')
     }
     template.prototype.renderRawHTML = function (text: string | undefined) {
       if (isBlank(text)) return ''
       const $ = load(text, undefined, false)
-      return $.html() ?? ''
+      const policy = policyFor(template as typeof template & SanitizeOptions, true)
+      const stripped = policy ? sanitize($, policy) : []
+      return reportStripped(this, stripped) + ($.html() ?? '')
     }
     if (template.prototype instanceof Page && !this.pages.has(template.templateKey)) this.pages.set(template.templateKey, template as any)
     else if (!this.components.has(template.templateKey)) this.components.set(template.templateKey, template as any)
@@ -152,10 +209,14 @@ export class TemplateRegistry {
         const finalBlock = block as RegistryJSBlock
         this.jsblocks.set(key, finalBlock)
         const js = finalBlock.js ?? readFileSync(finalBlock.path!, 'utf8')
-        promises.push(transform(js, { minify: true, sourcemap: true, sourcefile: `${key}.js`, legalComments: 'none', format: finalBlock.nomodule ? undefined : 'esm' }).then(minified => {
+        promises.push(transform(js, { minify: true, sourcemap: true, sourcefile: `${key}.js`, legalComments: 'none', format: finalBlock.nomodule ? undefined : 'esm' }).then(async minified => {
           finalBlock.js = minified.code
           finalBlock.map = minified.map
           finalBlock.size = new Blob([finalBlock.js]).size
+          finalBlock.hash = contentHash(finalBlock.js)
+          finalBlock.href = `/.resources/${finalBlock.hash}/${key}.js`
+          finalBlock.integrity = subresourceIntegrity(finalBlock.js)
+          finalBlock.compressed = await compress(finalBlock.js)
         }))
       }
     }
@@ -175,12 +236,13 @@ export class TemplateRegistry {
         }
         const ext = mime.extension(block.mime)
         if (ext && !block.path.endsWith('.' + ext)) console.warn(`File ${block.path} has MIME type ${block.mime} but does not have the expected extension .${ext}.`)
-        this.files.set(key, { ...block as Required<FileDeclaration>, size: stat.size, extension: ext || undefined })
+        const hash = contentHash(readFileSync(block.path))
+        const href = `${process.env.RESOURCES_PREFIX ?? ''}/.resources/${hash}/${key}${ext ? '.' + ext : ''}`
+        this.files.set(key, { ...block as Required<FileDeclaration>, size: stat.size, extension: ext || undefined, hash, href })
 
         // write back to the component's `webpaths` property so it will know where its files
         // live on the rendering server
-        const webpath = `${process.env.RESOURCES_PREFIX ?? ''}/.resources/${resourceversion}/${key}${ext ? '.' + ext : ''}`
-        template.webpaths.set(key, webpath)
+        template.webpaths.set(key, href)
       }
     }
     for (const [key, block] of template.cssBlocks.entries()) {
@@ -203,7 +265,7 @@ export class TemplateRegistry {
         for (const match of matches ?? []) {
           let href = match[1]
           if (this.files.has(match[1])) {
-            href = template.webpaths.get(href)!
+            href = this.files.get(match[1])!.href
             css = css.replace(new RegExp('url\\(' + match[1] + '\\)'), `url(${href})`)
           }
           if (match[2] === 'woff2') fonts.set(href, { href, format: 'font/woff2' })
@@ -220,6 +282,10 @@ export class TemplateRegistry {
           finalBlock.css = minified.code
           finalBlock.map = minified.map
           finalBlock.size = new Blob([finalBlock.css]).size
+          finalBlock.hash = contentHash(finalBlock.css)
+          finalBlock.href = `/.resources/${finalBlock.hash}/${key}.css`
+          finalBlock.integrity = subresourceIntegrity(finalBlock.css)
+          finalBlock.compressed = await compress(finalBlock.css)
         }))
       }
     }
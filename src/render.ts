@@ -1,10 +1,15 @@
 import { Component, type PageRecord, type ComponentData, type EditBarOpts, type RenderedComponent, type NewBarOpts, type ContextBase } from '@dosgato/templating'
-import type { FastifyRequest, FastifyReply } from 'fastify'
+import type { FastifyRequest } from 'fastify'
 import type { ParsedUrlQuery } from 'node:querystring'
-import { type RegistryCSSBlock, templateRegistry } from './registry.js'
+import { bundleBlocks, bundleable } from './bundle.js'
+import { type ComponentChange, changeHighlightStyles, diffComponentTrees, highlightChange, unmarkedChangesNotice } from './compare.js'
+import { nonceAttr, setContentSecurityPolicy } from './csp.js'
+import { componentErrorCounter } from './metrics.js'
+import { type RegistryCSSBlock, type RegistryJSBlock, templateRegistry } from './registry.js'
+import { newWindowHintStyles } from './richtext.js'
 import { resourceversion } from './version.js'
 import type { RenderingAPIClient } from './api.js'
-import { htmlEncode, clone } from 'txstate-utils'
+import { htmlEncode, clone, isNotBlank } from 'txstate-utils'
 import { mimeTypes } from './mimetypes.js'
 import { stripTrackerParams } from './util.js'
 
@@ -32,24 +37,33 @@ async function executeSetContext (component: Component, renderCtx: any) {
           await executeSetContext(c, renderCtxForArea)
         }))
       } catch (e: any) {
-        component.logError(e)
+        logComponentError(component, e)
       }
     }
   }
 }
 
+// count the error for metrics before the component handles it
+function logComponentError (component: Component, e: Error) {
+  componentErrorCounter.inc({ templateKey: component.data.templateKey })
+  component.logError(e)
+}
+
 // recursive helper function for the final render phase of rendering (phase 3)
-function renderComponent (component: Component) {
+// when comparing versions, `changes` maps component paths to the changes to highlight
+function renderComponent (component: Component, changes?: Map<string, ComponentChange>) {
   if (component.hadError) return component.editMode ? 'There was an error rendering a component here.' : ''
   component.renderedAreas = new Map<string, RenderedComponent[]>()
   for (const [key, list] of component.areas) {
-    const areaList = list.map((c, i) => ({ output: renderComponent(c), component: c }))
+    const areaList = list.map((c, i) => ({ output: renderComponent(c, changes), component: c }))
     component.renderedAreas.set(key, areaList)
   }
   try {
-    return component.render()
+    const output = component.render()
+    const change = changes?.get(component.path)
+    return change ? highlightChange(output, change) : output
   } catch (e: any) {
-    component.logError(e)
+    logComponentError(component, e)
     return component.editMode ? 'There was an error rendering a component here.' : ''
   }
 }
@@ -65,7 +79,7 @@ function renderVariation (extension: string, component: Component) {
   try {
     return component.renderVariation(extension)
   } catch (e: any) {
-    component.logError(e)
+    logComponentError(component, e)
     return ''
   }
 }
@@ -135,21 +149,171 @@ function hydratePage (pageData: PageRecord, editMode: boolean, extension: string
   return page
 }
 
+/**
+ * The parts of the fastify reply that the render process writes to. Keeping it this narrow
+ * lets us render into something other than a live reply, like the render cache.
+ */
+export interface RenderReply {
+  type: (contentType: string) => unknown
+  header: (key: string, value: any) => unknown
+  removeHeader: (key: string) => unknown
+  status: (statusCode: number) => unknown
+  /**
+   * Send a 103 Early Hints response. Only a live reply can do this.
+   */
+  writeEarlyHints?: (hints: Record<string, string | string[]>) => unknown
+}
+
+/**
+ * Set DOSGATO_RENDER_EARLY_HINTS=true to send a 103 Early Hints response with the page's
+ * fonts and unbundled CSS and JS as soon as its components are known. Some older proxies
+ * mishandle 103 responses, so it's off by default.
+ */
+const earlyHints = process.env.DOSGATO_RENDER_EARLY_HINTS === 'true'
+
+/**
+ * CSS blocks smaller than this many bytes are put directly in the page's head instead of
+ * being linked, which saves a request that would block rendering. Off (0) by default.
+ * Async blocks are never inlined unless they ask to be.
+ */
+const inlineCssThreshold = Number(process.env.DOSGATO_RENDER_INLINE_CSS_THRESHOLD ?? 0) || 0
+
+function shouldInline (block: RegistryCSSBlock) {
+  return !!block.inline || (!block.async && block.size < inlineCssThreshold)
+}
+
+/**
+ * A <style> element for an inlined CSS block. Source maps can't be found from inside the page,
+ * so the comment pointing at one is dropped.
+ */
+function inlineStyle (block: RegistryCSSBlock, nonce: string | undefined) {
+  const css = (block.css ?? '').replace(/\/\*# sourceMappingURL=[^*]*\*\/\s*$/, '').replace(/<\/style/gi, '<\\/style')
+  return `<style${nonceAttr(nonce)}>${css}</style>`
+}
+
+/**
+ * Split CSS blocks into inlined blocks and linked files, keeping the blocks' order so the
+ * cascade comes out the same either way. Each run of linked blocks between two inlined ones
+ * is bundled on its own, which also keeps inlined blocks out of the bundles.
+ */
+function orderedCss (blocks: { name: string, block: RegistryCSSBlock }[]) {
+  const css: { block: RegistryCSSBlock, inline?: true, href?: string, integrity?: string }[] = []
+  let run: typeof blocks = []
+  for (const entry of blocks) {
+    if (!shouldInline(entry.block)) {
+      run.push(entry)
+      continue
+    }
+    css.push(...bundleBlocks('css', run), { block: entry.block, inline: true })
+    run = []
+  }
+  css.push(...bundleBlocks('css', run))
+  return css
+}
+
+/**
+ * The CSS, JS and font files that a set of components needs
+ */
+function pageResources (components: Component[]) {
+  const cssBlocks = Array.from(new Set(components.flatMap(r => r.cssBlocks()))).map(name => ({ name, block: templateRegistry.cssblocks.get(name) })).filter(({ block }) => block != null) as { name: string, block: RegistryCSSBlock }[]
+  const normalCssBlocks = cssBlocks.filter(b => !b.block.targetsEditBars)
+  const fontfiles = new Map<string, { href: string, format: string }>()
+  for (const { block } of normalCssBlocks) {
+    for (const fontfile of block.fontfiles ?? []) fontfiles.set(fontfile.href, fontfile)
+  }
+  const css = orderedCss(normalCssBlocks)
+  return {
+    css,
+    cssFiles: css.filter(c => !c.inline) as { block: RegistryCSSBlock, href: string, integrity: string }[],
+    editCssBlocks: cssBlocks.filter(b => b.block.targetsEditBars),
+    fontfiles: Array.from(fontfiles.values()),
+    jsFiles: bundleBlocks('js', Array.from(new Set(components.flatMap(r => r.jsBlocks()))).map(name => ({ name, block: templateRegistry.jsblocks.get(name) })).filter(({ block }) => block != null) as { name: string, block: RegistryJSBlock }[])
+  }
+}
+
+/**
+ * Link header values that tell the browser to start downloading a page's resources. They carry
+ * the same integrity as the page's tags, or the browser won't reuse the preloaded copy.
+ */
+function preloadLinks ({ cssFiles, fontfiles, jsFiles }: Pick<ReturnType<typeof pageResources>, 'cssFiles' | 'fontfiles' | 'jsFiles'>) {
+  return [
+    ...cssFiles.map(({ href, integrity }) => `<${href}>; rel=preload; as=style; integrity="${integrity}"`),
+    ...fontfiles.map(ff => `<${ff.href}>; rel=preload; as=font; type="${ff.format}"; crossorigin`),
+    ...jsFiles.map(({ href, integrity, block }) => `<${href}>; ${block.nomodule ? 'rel=preload; as=script' : 'rel=modulepreload'}; integrity="${integrity}"`)
+  ]
+}
+
+/**
+ * Preload links for the resources a page needs no matter what it inherits. Inherited
+ * components can change which blocks are bundled together, and so the bundles' URLs, so
+ * before the fetch phase only fonts and blocks that are never bundled are safe to hint.
+ */
+function earlyHintLinks (components: Component[]) {
+  const { cssFiles, fontfiles, jsFiles } = pageResources(components)
+  return preloadLinks({
+    cssFiles: cssFiles.filter(f => !bundleable('css', f.block)),
+    fontfiles,
+    jsFiles: jsFiles.filter(f => !bundleable('js', f.block))
+  })
+}
+
+// timing details and broken link counts are for editors and developers, not the general public
+function setPreviewHeaders (api: RenderingAPIClient, res: RenderReply) {
+  if (api.context === 'live') return
+  res.header('Server-Timing', api.timing.serverTiming())
+  // lets the admin UI warn about broken links before publishing
+  res.header('X-Broken-Links', String(api.brokenLinks.length))
+}
+
+function cssString (str: string) {
+  return '"' + str.replace(/["\\]/g, '\\$&').replace(/[\n<]/g, c => `\\${c.charCodeAt(0).toString(16)} `) + '"'
+}
+
+/**
+ * Outline broken links in edit mode. A stylesheet catches them whether they came from rich
+ * text or from a template.
+ */
+function brokenLinkStyles (api: RenderingAPIClient) {
+  const hrefs = new Set(api.brokenLinks.map(l => l.href).filter(isNotBlank))
+  if (!hrefs.size) return ''
+  const selectors = Array.from(hrefs).flatMap(href => [`a[href=${cssString(href)}]`, `img[src=${cssString(href)}]`])
+  return `<style${nonceAttr(api.cspNonce)}>${selectors.join(', ')} { outline: 2px dashed #c62828; outline-offset: 2px; }</style>\n`
+}
+
+/**
+ * Async stylesheets start out as media="print" so they don't block rendering, then this
+ * switches them on once they load. An onload attribute would do the same, but a strict
+ * Content-Security-Policy doesn't allow those.
+ */
+function asyncStylesheetLoader (nonce: string | undefined) {
+  return `<script${nonceAttr(nonce)}>document.querySelectorAll('link[data-dg-async]').forEach(l => { if (l.sheet) l.media = 'all'; else l.addEventListener('load', () => { l.media = 'all' }) })</script>`
+}
+
 function editModeIncludes () {
   return `<link href="https://fonts.googleapis.com/css2?family=Roboto:ital,wght@0,300;0,400;0,500;0,700;1,300;1,400;1,500;1,700&display=swap" rel="stylesheet"><script src="/.editing/${resourceversion}/edit.js" type="module"></script><link rel="stylesheet" href="/.editing/${resourceversion}/edit.css">`
 }
 
+/**
+ * Hydrate two versions of a page and match up their components to see what changed
+ */
+export async function pageChanges (api: RenderingAPIClient, fromPage: PageRecord, toPage: PageRecord) {
+  const templateByKey = await api.getTemplates()
+  return diffComponentTrees(hydratePage(fromPage, false, 'html', templateByKey), hydratePage(toPage, false, 'html', templateByKey))
+}
+
 /**
  * This function represents the entire rendering process. It takes a non-hydrated page (plus
  * the non-hydrated data for its ancestors, to support inheritance) and returns an HTML
  * string.
  *
+ * Pass `changes` from pageChanges to outline each changed component in the output.
+ *
  * Any migrations should be completed before rendering a page. They probably already happened
  * in the API Server.
  */
-export async function renderPage (api: RenderingAPIClient, req: FastifyRequest, res: FastifyReply, page: PageRecord, extension = 'html', editMode = false) {
+export async function renderPage (api: RenderingAPIClient, req: FastifyRequest, res: RenderReply, page: PageRecord, extension = 'html', editMode = false, changes?: ComponentChange[]) {
   void res.type(mimeTypes[extension] ?? 'text/plain')
-  const templateByKey = await api.getTemplates()
+  const [templateByKey] = await Promise.all([api.getTemplates(), api.loadLinkPolicy()])
   const pageComponent = hydratePage(page, editMode, extension, templateByKey)
   pageComponent.logError = function (e: Error) {
     this.hadError = true
@@ -160,8 +324,18 @@ export async function renderPage (api: RenderingAPIClient, req: FastifyRequest,
   }
 
   pageComponent.url = new URL(req.url, `${req.protocol}://${req.hostname}`).pathname
+  // our preload links and any the page template sends share the Link header
+  const linkHeader: { preload?: string, template?: string } = {}
+  const setLinkHeader = () => {
+    const value = [linkHeader.preload, linkHeader.template].filter(isNotBlank).join(', ')
+    if (value) void res.header('Link', value)
+    else void res.removeHeader('Link')
+  }
   pageComponent.addHeader = (key: string, value: string | undefined) => {
-    if (value != null) {
+    if (key.toLowerCase() === 'link') {
+      linkHeader.template = value
+      setLinkHeader()
+    } else if (value != null) {
       void res.header(key, value)
       if (key === 'Location') void res.status(302)
     } else void res.removeHeader(key)
@@ -170,12 +344,16 @@ export async function renderPage (api: RenderingAPIClient, req: FastifyRequest,
     void res.status(statusCode)
   }
   const componentsIncludingPage = collectComponents(pageComponent)
+  if (earlyHints && extension === 'html' && res.writeEarlyHints) {
+    const links = earlyHintLinks(componentsIncludingPage)
+    if (links.length) res.writeEarlyHints({ link: links })
+  }
 
   pageComponent.templateProperties = templateByKey[pageComponent.data.templateKey]?.templateProperties
 
   // execute the fetch phase
   const componentsIncludingInherited = [...componentsIncludingPage]
-  await Promise.all(componentsIncludingPage.map(async c => {
+  await api.timing.phase('fetch', async () => await Promise.all(componentsIncludingPage.map(async c => {
     try {
       c.api = api
       c.reqHeaders = req.headers
@@ -185,7 +363,7 @@ export async function renderPage (api: RenderingAPIClient, req: FastifyRequest,
       c.registerInherited = (area, components, fromPageId, mode = 'top') => {
         if (components?.length) registered.push({ area, components, mode, fromPageId })
       }
-      c.fetched = c.shouldFetchVariation(extension) ? await c.fetch() : {}
+      c.fetched = c.shouldFetchVariation(extension) ? await api.timing.component(c, async () => await api.fetchFor(c, async () => await c.fetch())) : {}
       const extraComponents: Component[] = []
       for (const entry of registered) {
         if (!c.areas.has(entry.area) || entry.mode === 'replace') c.areas.set(entry.area, [])
@@ -211,52 +389,60 @@ export async function renderPage (api: RenderingAPIClient, req: FastifyRequest,
       componentsIncludingInherited.push(...extraComponents)
       await Promise.all(extraComponents.map(async c => {
         try {
-          c.fetched = await c.fetch()
+          c.fetched = await api.timing.component(c, async () => await api.fetchFor(c, async () => await c.fetch()))
         } catch (e: any) {
-          c.logError(e)
+          logComponentError(c, e)
         }
       }))
     } catch (e: any) {
-      c.logError(e)
+      logComponentError(c, e)
     }
-  }))
+  })))
   if (pageComponent.hadError) {
     void res.status(500)
     return ''
   }
 
   // execute the context phase
-  await executeSetContext(pageComponent, { headerLevel: 1 })
+  await api.timing.phase('context', async () => { await executeSetContext(pageComponent, { headerLevel: 1 }) })
 
   // render variations and skip the regular render phase
   if (extension !== 'html') {
-    return renderVariation(extension, pageComponent)
+    const variation = await api.timing.phase('render', () => renderVariation(extension, pageComponent))
+    setPreviewHeaders(api, res)
+    return variation
   }
 
   // provide content for the <head> element and give it to the page component
-  const fontfiles = new Map<string, { href: string, format: string }>()
-  const cssBlockNames = Array.from(new Set(componentsIncludingInherited.flatMap(r => r.cssBlocks())))
-  const cssBlocks = cssBlockNames.map(name => ({ name, block: templateRegistry.cssblocks.get(name) })).filter(({ block }) => block != null) as { name: string, block: RegistryCSSBlock }[]
-  const normalCssBlocks = cssBlocks.filter(b => !b.block.targetsEditBars)
-  const editCssBlocks = cssBlocks.filter(b => b.block.targetsEditBars)
-  for (const { block } of normalCssBlocks) {
-    for (const fontfile of block.fontfiles ?? []) fontfiles.set(fontfile.href, fontfile)
-  }
-  pageComponent.headContent = (editMode ? editModeIncludes() + `<script>window.dgEditingBlocks = ${JSON.stringify(editCssBlocks.map(b => b.name))}</script>\n` : '')
+  const resources = pageResources(componentsIncludingInherited)
+  const { css, cssFiles, editCssBlocks, fontfiles, jsFiles } = resources
+  linkHeader.preload = preloadLinks(resources).join(', ')
+  setLinkHeader()
+  setContentSecurityPolicy(api, res)
+  pageComponent.headContent = (editMode ? editModeIncludes() + `<script${nonceAttr(api.cspNonce)}>window.dgEditingBlocks = ${JSON.stringify(editCssBlocks.map(b => b.block.href))}</script>\n` + brokenLinkStyles(api) : '')
+    + (changes ? changeHighlightStyles(api.cspNonce) + '\n' : '')
+    + newWindowHintStyles(api.linkPolicy, api.cspNonce)
     + (api.context === 'live' ? `<link rel="canonical" href="${api.getHref(page, { absolute: true, extension: 'html' }).replace(/^(https?:\/\/[^/]+)$/, '$1/')}${htmlEncode(stripTrackerParams(new URL(req.url, 'https://example.com').search))}">\n` : '') + [
-    ...normalCssBlocks.map(({ name, block }) =>
-      `<link rel="stylesheet" href="/.resources/${resourceversion}/${name}.css"${block.async ? ' media="print" onload="this.media=all"' : ''}>`
+    ...css.map(({ href, integrity, block, inline }) => inline
+      ? inlineStyle(block, api.cspNonce)
+      : `<link rel="stylesheet" href="${htmlEncode(href!)}" integrity="${integrity!}"${block.async ? ' media="print" data-dg-async' : ''}>`
     ),
-    ...Array.from(fontfiles.values()).map(ff =>
+    ...(cssFiles.some(f => f.block.async) ? [asyncStylesheetLoader(api.cspNonce)] : []),
+    ...fontfiles.map(ff =>
       `<link rel="preload" as="font" href="${ff.href}" type="${ff.format}" crossorigin="anonymous">`
     ),
-    ...Array.from(new Set(componentsIncludingInherited.flatMap(r => r.jsBlocks()))).map(name => ({ name, block: templateRegistry.jsblocks.get(name) })).filter(({ name, block }) => block != null).map(({ name, block }) =>
-      `<script src="/.resources/${resourceversion}/${name}.js"${block!.async ? ' async' : ''}${block!.nomodule ? '' : ' type="module"'}></script>`)
+    ...jsFiles.map(({ href, integrity, block }) =>
+      `<script src="${htmlEncode(href)}" integrity="${integrity}"${block.async ? ' async' : ''}${block.nomodule ? '' : ' type="module"'}></script>`)
   ].join('\n')
   // execute the render phase
-  const ret = renderComponent(pageComponent)
+  // the page itself can't be outlined, and removed components aren't there to outline
+  const changesByPath = changes && new Map(changes.filter(c => c.path && c.type !== 'removed').map(c => [c.path, c]))
+  const ret = await api.timing.phase('render', () => renderComponent(pageComponent, changesByPath))
   if (pageComponent.hadError) void res.status(500)
-  return ret
+  setPreviewHeaders(api, res)
+  if (!changes) return ret
+  const notice = unmarkedChangesNotice(changes, Object.fromEntries(Object.entries(templateByKey).map(([key, t]) => [key, t.name])))
+  return ret.replace(/<body[^>]*>/i, body => body + notice)
 }
 
 Component.editBar = (path: string, opts: EditBarOpts) => {
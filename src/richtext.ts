@@ -0,0 +1,159 @@
+import type { PictureAttributes } from '@dosgato/templating'
+import type { CheerioAPI } from 'cheerio'
+import { nonceAttr } from './csp.js'
+import { stripTrackersFromHref } from './util.js'
+
+export type LinkKind = 'internal' | 'external' | 'asset' | 'broken'
+
+export interface LinkRule {
+  /**
+   * Open the link in a new window, with a hint for screen reader users that it will
+   */
+  newWindow?: boolean
+  /**
+   * Classes to add to the link, e.g. one that gives external links an icon
+   */
+  className?: string
+  /**
+   * Values to add to the link's rel attribute
+   */
+  rel?: string
+  /**
+   * Remove utm_ and other tracker params from the link
+   */
+  stripTrackers?: boolean
+}
+
+/**
+ * How to treat each kind of link in rich text. Defaults come from DOSGATO_RENDER_LINK_POLICY
+ * (JSON) and a site can override them, see RenderingAPIClient.loadLinkPolicy.
+ */
+export interface LinkPolicy {
+  internal?: LinkRule
+  external?: LinkRule
+  asset?: LinkRule
+  broken?: LinkRule
+  /**
+   * Hostnames whose links count as internal even though they are typed in as a URL,
+   * e.g. ['www.example.edu']
+   */
+  internalHosts?: string[]
+  /**
+   * Text read to screen reader users on links that open a new window
+   */
+  newWindowHint?: string
+}
+
+const linkKinds: LinkKind[] = ['internal', 'external', 'asset', 'broken']
+
+/**
+ * Layer one policy over another. Rules for each kind of link are merged property by property,
+ * everything else is replaced.
+ */
+export function mergeLinkPolicy (base: LinkPolicy, override: LinkPolicy | undefined): LinkPolicy {
+  if (!override) return base
+  const merged: LinkPolicy = { ...base, ...override }
+  for (const kind of linkKinds) merged[kind] = { ...base[kind], ...override[kind] }
+  return merged
+}
+
+// a typo in the environment shouldn't keep the whole server from starting
+function envLinkPolicy (): LinkPolicy | undefined {
+  if (!process.env.DOSGATO_RENDER_LINK_POLICY) return undefined
+  try {
+    return JSON.parse(process.env.DOSGATO_RENDER_LINK_POLICY)
+  } catch (e: any) {
+    console.error(`DOSGATO_RENDER_LINK_POLICY is not valid JSON, using the default link policy. ${e.message}`)
+    return undefined
+  }
+}
+
+export const defaultLinkPolicy = mergeLinkPolicy({
+  external: { rel: 'noopener noreferrer', stripTrackers: true },
+  newWindowHint: 'opens in new window'
+}, envLinkPolicy())
+
+function classifyHref (href: string, policy: LinkPolicy): LinkKind | undefined {
+  if (/^(mailto|tel|sms|javascript):|^#/i.test(href)) return undefined
+  if (!/^(https?:)?\/\//i.test(href)) return 'internal'
+  try {
+    return policy.internalHosts?.includes(new URL(href, 'https://example.com').hostname) ? 'internal' : 'external'
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Apply a link policy to every link in a parsed rich text fragment, in place.
+ *
+ * `kinds` maps resolved hrefs to what scanForLinks found them to be, see
+ * RenderingAPIClient.linkKinds. Links that aren't in it, like URLs typed into the text, are
+ * external when they are absolute and not on one of the policy's internalHosts.
+ */
+export function applyLinkPolicy ($: CheerioAPI, kinds: Map<string, LinkKind>, policy: LinkPolicy) {
+  for (const el of $('a[href]')) {
+    const $a = $(el)
+    const href = $a.attr('href')!
+    const kind = kinds.get(href) ?? classifyHref(href, policy)
+    const rule = kind && policy[kind]
+    if (!rule) continue
+    if (rule.stripTrackers) $a.attr('href', stripTrackersFromHref(href))
+    if (rule.className) $a.addClass(rule.className)
+    const opensWindow = rule.newWindow && !$a.attr('target')
+    if (opensWindow) $a.attr('target', '_blank')
+    const rel = new Set([$a.attr('rel'), rule.rel, opensWindow ? 'noopener' : undefined].flatMap(r => r?.split(/\s+/) ?? []).filter(Boolean))
+    if (rel.size) $a.attr('rel', Array.from(rel).join(' '))
+    if (opensWindow && policy.newWindowHint) {
+      $a.append($('<span class="dg-new-window-hint"></span>').text(` (${policy.newWindowHint})`))
+    }
+  }
+}
+
+/**
+ * Hides the hints applyLinkPolicy adds to links that open a new window from everyone but
+ * screen reader users. Only needed on pages where the policy opens new windows.
+ */
+export function newWindowHintStyles (policy: LinkPolicy, nonce: string | undefined) {
+  if (!policy.newWindowHint || !linkKinds.some(kind => policy[kind]?.newWindow)) return ''
+  return `<style${nonceAttr(nonce)}>.dg-new-window-hint { position: absolute; width: 1px; height: 1px; overflow: hidden; clip: rect(0 0 0 0); white-space: nowrap; }</style>\n`
+}
+
+/**
+ * Turn every <img> in a parsed rich text fragment that points at an image from the asset
+ * repository into a responsive image, in place. Attributes the editor already set are left
+ * alone. Returns the src of each image that has no alt attribute at all, so editors can be
+ * warned. An empty alt is deliberate (a decorative image) and is not reported.
+ *
+ * `images` maps a resolved asset href to its attributes, see RenderingAPIClient.resolvedImages
+ */
+export function enhanceImages ($: CheerioAPI, images: Map<string, PictureAttributes>) {
+  const missingAlt: string[] = []
+  for (const el of $('img[src]')) {
+    const $img = $(el)
+    const image = images.get($img.attr('src')!)
+    if (!image) continue
+    if ($img.attr('alt') == null) missingAlt.push(image.src)
+    // reserve space for the image before it loads, keeping the aspect ratio if the editor set a width
+    const width = parseInt($img.attr('width') ?? '', 10)
+    if (!width) $img.attr('width', String(image.width))
+    if (!$img.attr('height')) $img.attr('height', String(width ? Math.round(width * image.height / image.width) : image.height))
+    const sizes = $img.attr('sizes') ?? `min(${width || image.width}px, 100vw)`
+    $img.attr('srcset', $img.attr('srcset') ?? image.srcset).attr('sizes', sizes)
+    $img.attr('loading', $img.attr('loading') ?? 'lazy').attr('decoding', $img.attr('decoding') ?? 'async')
+    if (image.alternates.length && !$img.parent().is('picture')) {
+      $img.wrap('<picture></picture>')
+      for (const alternate of image.alternates) {
+        $img.before($('<source>').attr('type', alternate.mime).attr('srcset', alternate.srcset).attr('sizes', sizes))
+      }
+    }
+  }
+  return missingAlt
+}
+
+/**
+ * A notice for editors listing images that have no alternative text.
+ */
+export function missingAltNotice (missingAlt: string[]) {
+  if (!missingAlt.length) return ''
+  return `<p class="dg-missing-alt" role="note">${missingAlt.length === 1 ? 'An image here is' : `${missingAlt.length} images here are`} missing alternative text. Describe ${missingAlt.length === 1 ? 'it' : 'them'} for people using screen readers, or mark ${missingAlt.length === 1 ? 'it' : 'them'} as decorative.</p>`
+}
@@ -0,0 +1,38 @@
+import { isNotBlank } from 'txstate-utils'
+import type { RenderingAPIClient } from './api.js'
+import type { RenderReply } from './render.js'
+
+/**
+ * Routes that are never meant for search engines. Responses from these routes all get
+ * an `X-Robots-Tag: noindex, nofollow` header, and the generated robots.txt disallows them.
+ */
+export const nonLiveRoutePrefixes = ['/.preview/', '/.compare/', '/.history/', '/.brokenlinks/', '/.linkcheck/', '/.edit/', '/.asset/', '/.page/', '/.share/']
+
+/**
+ * Generate robots.txt for the site launched at the root of the given hostname.
+ *
+ * The default allows everything except our non-live routes and points crawlers at the site's
+ * sitemap. A site can override it by creating a data entry at the root of the site with the
+ * template key named in DOSGATO_ROBOTS_TEMPLATE_KEY; the entry's `content` property is served
+ * verbatim.
+ *
+ * Hostnames with no site launched at the root still get a robots.txt, so that preview
+ * hostnames are covered.
+ */
+export async function renderRobots (api: RenderingAPIClient, res: RenderReply, hostname: string) {
+  const site = await api.getSiteInfoByLaunchUrl(`http://${hostname}/`)
+  res.type('text/plain')
+  if (site?.url.path === '/') {
+    api.siteId = site.id
+    api.pagetreeId = site.primaryPagetree.id
+    api.sitename = site.name
+    const templateKey = process.env.DOSGATO_ROBOTS_TEMPLATE_KEY
+    if (isNotBlank(templateKey)) {
+      const content = (await api.getSiteRootData(templateKey, 'robots.txt'))?.data.content
+      if (isNotBlank(content)) return String(content)
+    }
+  }
+  const lines = ['User-agent: *', ...nonLiveRoutePrefixes.map(p => `Disallow: ${p}`), 'Allow: /']
+  if (site?.url.path === '/') lines.push('', `Sitemap: ${site.url.prefix.replace(/\/+$/, '')}/sitemap.xml`)
+  return lines.join('\n') + '\n'
+}
@@ -0,0 +1,220 @@
+import { type CheerioAPI, load } from 'cheerio'
+import type { Element } from 'domhandler'
+import { htmlEncode } from 'txstate-utils'
+
+export interface SanitizePolicy {
+  /**
+   * Elements to allow in addition to the defaults, e.g. ['iframe']
+   */
+  allowTags?: string[]
+  /**
+   * Default elements to disallow, e.g. ['img'] for a text-only field. Their content is kept.
+   */
+  denyTags?: string[]
+  /**
+   * Attributes to allow in addition to the defaults, by element name. Use '*' for
+   * attributes allowed on every element.
+   */
+  allowAttributes?: Record<string, string[]>
+  /**
+   * Default attributes to disallow, by element name, with '*' for every element. data- and
+   * aria- attributes are always allowed.
+   */
+  denyAttributes?: Record<string, string[]>
+  /**
+   * URL schemes allowed in href, src and similar attributes. Relative URLs are always
+   * allowed. Default is http, https, mailto and tel.
+   */
+  allowSchemes?: string[]
+}
+
+/**
+ * How much to trust HTML passed to renderRawHTML
+ *
+ * - `sanitized` (default) applies the same policy as rich text
+ * - `embed` also allows iframes, audio and video, for templates that exist to embed things
+ * - `trusted` skips sanitization completely. Only for templates whose raw HTML can only be
+ *   edited by people you would trust to edit the site's javascript.
+ */
+export type RawHTMLTrust = 'sanitized' | 'embed' | 'trusted'
+
+/**
+ * Templates can set these as static properties to change how their HTML is sanitized.
+ */
+export interface SanitizeOptions {
+  sanitizePolicy?: SanitizePolicy
+  rawHTMLTrust?: RawHTMLTrust
+}
+
+const defaultTags = [
+  'a', 'abbr', 'b', 'bdi', 'bdo', 'blockquote', 'br', 'caption', 'cite', 'code', 'col', 'colgroup',
+  'dd', 'del', 'details', 'dfn', 'div', 'dl', 'dt', 'em', 'figcaption', 'figure', 'h1', 'h2', 'h3',
+  'h4', 'h5', 'h6', 'hr', 'i', 'img', 'ins', 'kbd', 'li', 'mark', 'ol', 'p', 'picture', 'pre', 'q',
+  's', 'samp', 'small', 'source', 'span', 'strong', 'sub', 'summary', 'sup', 'table', 'tbody', 'td',
+  'tfoot', 'th', 'thead', 'time', 'tr', 'u', 'ul', 'var', 'wbr'
+]
+
+const defaultAttributes: Record<string, string[]> = {
+  '*': ['class', 'id', 'title', 'lang', 'dir', 'role'],
+  a: ['href', 'target', 'rel', 'name', 'hreflang'],
+  img: ['src', 'srcset', 'sizes', 'alt', 'width', 'height', 'loading', 'decoding'],
+  source: ['srcset', 'sizes', 'media', 'type', 'width', 'height'],
+  blockquote: ['cite'],
+  q: ['cite'],
+  del: ['cite', 'datetime'],
+  ins: ['cite', 'datetime'],
+  time: ['datetime'],
+  ol: ['start', 'reversed', 'type'],
+  li: ['value'],
+  col: ['span'],
+  colgroup: ['span'],
+  td: ['colspan', 'rowspan', 'headers'],
+  th: ['colspan', 'rowspan', 'headers', 'scope', 'abbr'],
+  details: ['open']
+}
+
+const embedPolicy: SanitizePolicy = {
+  allowTags: ['iframe', 'video', 'audio', 'track'],
+  allowAttributes: {
+    iframe: ['src', 'width', 'height', 'allow', 'allowfullscreen', 'loading', 'referrerpolicy', 'sandbox'],
+    video: ['src', 'poster', 'width', 'height', 'controls', 'preload', 'muted', 'loop', 'playsinline'],
+    audio: ['src', 'controls', 'preload', 'muted', 'loop'],
+    track: ['src', 'kind', 'srclang', 'label', 'default']
+  }
+}
+
+/**
+ * Disallowed elements normally disappear but keep their content, so that something like an
+ * unexpected <font> tag doesn't lose text. These go away along with everything inside them.
+ */
+const dropWithContent = new Set(['script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'noscript', 'template', 'svg', 'math', 'textarea', 'select', 'option', 'input', 'button', 'link', 'meta', 'base', 'title', 'head', 'audio', 'video'])
+
+const urlAttributes = new Set(['href', 'src', 'cite', 'poster'])
+
+/**
+ * A SanitizePolicy merged into the defaults, ready for sanitize(). Get one from policyFor or
+ * effectivePolicy.
+ */
+export interface EffectivePolicy {
+  tags: Set<string>
+  attributes: Map<string, Set<string>>
+  schemes: Set<string>
+}
+
+function mergePolicy (...policies: (SanitizePolicy | undefined)[]): EffectivePolicy {
+  const tags = new Set(defaultTags)
+  const attributes = new Map(Object.entries(defaultAttributes).map(([tag, attrs]) => [tag, new Set(attrs)]))
+  let schemes = ['http', 'https', 'mailto', 'tel']
+  for (const policy of policies) {
+    if (!policy) continue
+    for (const tag of policy.allowTags ?? []) tags.add(tag.toLowerCase())
+    for (const tag of policy.denyTags ?? []) tags.delete(tag.toLowerCase())
+    for (const [tag, attrs] of Object.entries(policy.allowAttributes ?? {})) {
+      if (!attributes.has(tag)) attributes.set(tag, new Set())
+      for (const attr of attrs) attributes.get(tag)!.add(attr.toLowerCase())
+    }
+    for (const [tag, attrs] of Object.entries(policy.denyAttributes ?? {})) {
+      for (const attr of attrs) attributes.get(tag)?.delete(attr.toLowerCase())
+    }
+    if (policy.allowSchemes) schemes = policy.allowSchemes
+  }
+  return { tags, attributes, schemes: new Set(schemes.map(s => s.toLowerCase().replace(/:$/, ''))) }
+}
+
+/**
+ * Merge a policy into the defaults, for sanitizing HTML that doesn't belong to a template
+ */
+export function effectivePolicy (policy?: SanitizePolicy) {
+  return mergePolicy(policy)
+}
+
+const policyCache = new WeakMap<object, Map<string, EffectivePolicy>>()
+
+/**
+ * Get the policy for a template class, merging its static sanitizePolicy into the defaults.
+ * Merged policies are cached per template since they never change.
+ *
+ * Rich text always has a policy. Raw HTML has none when the template trusts it completely.
+ */
+export function policyFor (template: SanitizeOptions): EffectivePolicy
+export function policyFor (template: SanitizeOptions, raw: boolean): EffectivePolicy | undefined
+export function policyFor (template: SanitizeOptions, raw = false) {
+  const level = raw ? (template.rawHTMLTrust ?? 'sanitized') : 'sanitized'
+  if (level === 'trusted') return undefined
+  let cached = policyCache.get(template)
+  if (!cached) {
+    cached = new Map()
+    policyCache.set(template, cached)
+  }
+  if (!cached.has(level)) cached.set(level, mergePolicy(level === 'embed' ? embedPolicy : undefined, template.sanitizePolicy))
+  return cached.get(level)!
+}
+
+function safeUrl (url: string, policy: EffectivePolicy) {
+  // eslint-disable-next-line no-control-regex -- browsers ignore whitespace and control characters in a scheme, so "java\tscript:" works
+  const normalized = url.replace(/[\u0000-\u0020\u007f]/g, '')
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(normalized)?.[1]
+  return scheme == null || policy.schemes.has(scheme.toLowerCase())
+}
+
+function attributeAllowed (tag: string, attr: string, policy: EffectivePolicy) {
+  if (attr.startsWith('on')) return false
+  if (attr.startsWith('aria-') || attr.startsWith('data-')) return true
+  return [policy.attributes.get('*'), policy.attributes.get(tag)].some(allowed => allowed?.has(attr))
+}
+
+/**
+ * Remove everything the policy does not allow from a parsed fragment, in place. Returns a
+ * description of each thing that was removed.
+ */
+export function sanitize ($: CheerioAPI, policy: EffectivePolicy) {
+  const stripped: string[] = []
+  // children before parents, so that unwrapping an element doesn't skip its descendants
+  const elements = $('*').toArray().reverse() as Element[]
+  for (const el of elements) {
+    const tag = el.tagName.toLowerCase()
+    if (!policy.tags.has(tag)) {
+      stripped.push(`<${tag}>`)
+      if (dropWithContent.has(tag)) $(el).remove()
+      else $(el).replaceWith($(el).contents())
+      continue
+    }
+    for (const [attr, value] of Object.entries(el.attribs)) {
+      const name = attr.toLowerCase()
+      if (!attributeAllowed(tag, name, policy)) {
+        stripped.push(`${name} attribute on <${tag}>`)
+        $(el).removeAttr(attr)
+      } else if (urlAttributes.has(name) && !safeUrl(value, policy)) {
+        stripped.push(`${name} URL on <${tag}>`)
+        $(el).removeAttr(attr)
+      } else if (name === 'srcset' && value.split(',').some(candidate => !safeUrl(candidate.trim().split(/\s+/)[0], policy))) {
+        stripped.push(`${name} URL on <${tag}>`)
+        $(el).removeAttr(attr)
+      }
+    }
+    // links that open a new window shouldn't get a handle on this one
+    if (tag === 'a' && $(el).attr('target') && !/\bnoopener\b/.test($(el).attr('rel') ?? '')) {
+      $(el).attr('rel', [$(el).attr('rel'), 'noopener'].filter(Boolean).join(' '))
+    }
+  }
+  return stripped
+}
+
+/**
+ * Sanitize an HTML fragment with a policy, or the defaults. Returns the cleaned HTML and a
+ * description of each thing that was removed.
+ */
+export function sanitizeHTML (html: string, policy?: SanitizePolicy) {
+  const $ = load(html, undefined, false)
+  const stripped = sanitize($, effectivePolicy(policy))
+  return { html: $.html(), stripped }
+}
+
+/**
+ * A notice for editors listing what sanitize() removed, since otherwise the content would
+ * silently vanish from the page.
+ */
+export function strippedNotice (stripped: string[]) {
+  if (!stripped.length) return ''
+  return `<p class="dg-sanitized" role="note">Removed for security, will not appear on the live site: ${htmlEncode(Array.from(new Set(stripped)).join(', '))}</p>`
+}
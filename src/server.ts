@@ -1,23 +1,83 @@
+import { createHash } from 'node:crypto'
 import { createReadStream, readFileSync } from 'node:fs'
 import { Readable } from 'node:stream'
 import type { ReadableStream as WebReadableStream } from 'node:stream/web'
-import { constants, brotliCompress, gzip } from 'node:zlib'
 import type { APIClient, ResourceProvider } from '@dosgato/templating'
 import cookie from '@fastify/cookie'
 import type { FastifyReply, FastifyRequest } from 'fastify'
 import Server, { type FastifyTxStateOptions, HttpError } from 'fastify-txstate'
-import htmldiff from 'node-htmldiff'
+import { decodeJwt, jwtVerify } from 'jose'
 import { isNotBlank, rescue } from 'txstate-utils'
 import { RenderingAPIClient, download } from './api.js'
+import { inlineDiff, renderSummary, sideBySideDiff, summarizeChanges, versionLabel } from './compare.js'
+import { bundleMapHref, compressBundle, findBundle } from './bundle.js'
+import { type CompressedData, type ContentEncoding, compress, compressDynamic, compressThreshold, preferredEncoding, sendPrecompressed } from './compression.js'
 import { type RegistryFile, templateRegistry } from './registry.js'
-import { renderPage } from './render.js'
-import { parsePath } from './util.js'
+import { type ExportOptions, SiteExporter } from './export.js'
+import { assetProxyBytesCounter, metricsRegistry, renderCounter, renderPhaseHistogram } from './metrics.js'
+import { mimeTypes } from './mimetypes.js'
+import { RenderRecorder, renderCache } from './pagecache.js'
+import { type RenderReply, pageChanges, renderPage } from './render.js'
+import { renderHistory } from './history.js'
+import { LinkChecker, linkReportToCsv } from './linkcheck.js'
+import { nonLiveRoutePrefixes, renderRobots } from './robots.js'
+import { mintShareToken, revokeShareLinks, verifyShareToken } from './share.js'
+import { renderSitemap } from './sitemap.js'
+import { endRequestSpan, recordRequestError, startTracing, traceRequest } from './tracing.js'
+import { jwtSignKey, parsePath, parseVersion } from './util.js'
 import { schemaversion } from './version.js'
 
+/**
+ * Verify a bearer token for server-to-server requests like cache purges. These tokens
+ * must be signed with the same secret the render server uses for its own tokens.
+ */
+async function verifyServiceToken (req: FastifyRequest) {
+  const header = req.headers.authorization?.split(' ') ?? []
+  if (header[0] !== 'Bearer' || !header[1]) throw new HttpError(401)
+  try {
+    await jwtVerify(header[1], jwtSignKey)
+  } catch {
+    throw new HttpError(401)
+  }
+}
+
+/**
+ * Every path that needs the dg_token cookie. Keep this in sync with any new route that
+ * calls getToken.
+ */
+const tokenCookiePaths = ['/.edit/', '/.preview/', '/.compare/', '/.history/', '/.brokenlinks/', '/.linkcheck/', '/.asset/', '/.page/', '/.token']
+
+/**
+ * Read the expiration out of a token without verifying it. We never trust the token for
+ * anything ourselves, the API checks the signature when we pass it along.
+ */
+function tokenExpiration (token: string) {
+  try {
+    const { exp } = decodeJwt(token)
+    return exp != null ? new Date(exp * 1000) : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Get the user's token, or undefined if they have none or it has expired, so that callers
+ * send them back through authentication instead of making API calls that will fail.
+ */
 function getToken (req: FastifyRequest<{ Querystring: { token?: string } }>) {
   const header = req.headers.authorization?.split(' ') ?? []
-  if (header[0] === 'Bearer') return header[1]
-  return req.cookies.dg_token
+  const token = header[0] === 'Bearer' ? header[1] : req.cookies.dg_token
+  if (!token) return undefined
+  const expiration = tokenExpiration(token)
+  return expiration && expiration.getTime() <= Date.now() ? undefined : token
+}
+
+/**
+ * Send the user to the admin UI to get a fresh token. It will send them back to the
+ * current URL with ?token= when it's done.
+ */
+async function reauthenticate (req: FastifyRequest, res: FastifyReply) {
+  return await res.redirect(`${process.env.DOSGATO_ADMIN_BASE!}/preview?url=${encodeURIComponent(`${req.protocol}://${req.host}${req.url}`)}`, 302)
 }
 
 // eslint-disable-next-line @typescript-eslint/no-unnecessary-type-parameters -- lets call sites choose their APIClient subclass without a cast
@@ -43,40 +103,114 @@ async function checkApiHealth () {
   return resp.ok ? undefined : { status: resp.status, message: await resp.text() }
 }
 
-async function proxy (resp: Response, res: FastifyReply) {
+async function proxy (resp: Response, res: FastifyReply, onBytes?: (bytes: number) => void) {
   for (const h of ['Last-Modified', 'Etag', 'Cache-Control', 'Content-Type', 'Content-Disposition', 'Content-Length', 'Location']) {
     const header = resp.headers.get(h)
     if (header) void res.header(h, header)
   }
   void res.status(resp.status)
   // stream the body through chunk by chunk instead of buffering it
-  if (resp.body) return await res.send(Readable.fromWeb(resp.body as WebReadableStream))
+  if (resp.body) {
+    const body = onBytes
+      ? resp.body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({ transform (chunk, controller) { onBytes(chunk.byteLength); controller.enqueue(chunk) } }))
+      : resp.body
+    return await res.send(Readable.fromWeb(body as WebReadableStream))
+  }
   return await res.send()
 }
 
-async function compress (data: string) {
-  const [gzipBuffer, brotliBuffer] = await Promise.all([
-    new Promise<Buffer>((resolve, reject) => {
-      gzip(data, (err, result) => {
-        if (err) reject(err)
-        else resolve(result)
-      })
-    }),
-    new Promise<Buffer>((resolve, reject) => {
-      brotliCompress(data, { params: { [constants.BROTLI_PARAM_QUALITY]: 11 } }, (err, result) => {
-        if (err) reject(err)
-        else resolve(result)
-      })
-    })
-  ])
-  return { raw: data, gzip: gzipBuffer, brotli: brotliBuffer }
+/**
+ * Renders that have started for a request but not been recorded yet. If the render ends in
+ * a thrown error instead, the onResponse hook records it with the error's status.
+ */
+const pendingRenders = new WeakMap<FastifyRequest, { api: RenderingAPIClient, extension: string | undefined }>()
+
+function startRender (req: FastifyRequest, api: RenderingAPIClient, extension: string | undefined) {
+  pendingRenders.set(req, { api, extension })
+}
+
+/**
+ * Add the render's timing breakdown to the request log and record it in our metrics
+ *
+ * `status` is passed separately because a cached render records into a RenderRecorder
+ * instead of the reply.
+ */
+function recordRender (req: FastifyRequest, res: FastifyReply, api: RenderingAPIClient, status: number, extension: string | undefined) {
+  if (pendingRenders.get(req)?.api === api) pendingRenders.delete(req)
+  res.extraLogInfo = { ...res.extraLogInfo, renderTiming: api.timing.toJSON() }
+  // anyone can request any extension, so keep unknown ones from blowing up the label count
+  const ext = extension ?? 'html'
+  renderCounter.inc({ context: api.context, status, extension: ext in mimeTypes ? ext : 'other' })
+  for (const [phase, ms] of api.timing.phaseDurations()) renderPhaseHistogram.observe({ context: api.context, phase }, ms / 1000)
+}
+
+/**
+ * For routes that render a page but respond with something else, like a report or a diff.
+ * Preloading the page's resources would only waste the browser's time, so the reply gets no
+ * Link header and can't send Early Hints.
+ */
+function withoutPreloading (res: FastifyReply): RenderReply {
+  return {
+    type: contentType => res.type(contentType),
+    header: (key, value) => key.toLowerCase() === 'link' ? res : res.header(key, value),
+    removeHeader: key => res.removeHeader(key),
+    status: statusCode => res.status(statusCode)
+  }
+}
+
+/**
+ * Add validators to a rendered page so that browsers and proxies can revalidate cheaply. The
+ * ETag is a hash of the output, and Last-Modified comes from the newest page or data
+ * entry the render loaded.
+ *
+ * The CSP nonce is left out of the hash, since every response gets a different one.
+ */
+function setValidators (res: RenderReply, output: string, api: RenderingAPIClient) {
+  const nonce = api.cspNonce
+  res.header('ETag', `"${createHash('sha256').update(nonce ? output.replaceAll(nonce, '') : output).digest('base64url')}"`)
+  if (api.lastModified) res.header('Last-Modified', api.lastModified.toUTCString())
+}
+
+function notModified (req: FastifyRequest, res: FastifyReply) {
+  if (res.statusCode !== 200) return false
+  const etag = res.getHeader('etag') as string | undefined
+  const ifNoneMatch = req.headers['if-none-match']
+  // If-None-Match takes precedence when both are present
+  if (ifNoneMatch != null) return etag != null && ifNoneMatch.split(',').map(t => t.trim().replace(/^W\//, '')).some(t => t === '*' || t === etag)
+  const lastModified = res.getHeader('last-modified') as string | undefined
+  const ifModifiedSince = req.headers['if-modified-since']
+  if (!lastModified || !ifModifiedSince) return false
+  const since = new Date(ifModifiedSince)
+  return !isNaN(since.getTime()) && new Date(lastModified) <= since
+}
+
+/**
+ * Send a rendered page, or a 304 if the client's cached copy is still good
+ *
+ * Output above the size threshold is compressed for clients that accept it. Each encoding
+ * gets its own ETag, as required for strong validators. Pass `encoded` to hold on to the
+ * compressed copies when the same output will be sent again, like from the render cache.
+ *
+ * fastify answers HEAD requests with the GET handler, so they get the same treatment.
+ */
+async function sendRendered (req: FastifyRequest, res: FastifyReply, output: string, encoded?: Partial<Record<ContentEncoding, Buffer>>) {
+  const encoding = Buffer.byteLength(output) >= compressThreshold ? preferredEncoding(req) : undefined
+  void res.header('Vary', 'Accept-Encoding')
+  const etag = res.getHeader('etag') as string | undefined
+  if (encoding && etag) void res.header('ETag', etag.replace(/"$/, `-${encoding}"`))
+  if (notModified(req, res)) return await res.status(304).send()
+  if (!encoding) return output
+  void res.header('Content-Encoding', encoding)
+  if (!encoded) return await compressDynamic(output, encoding)
+  encoded[encoding] ??= await compressDynamic(output, encoding)
+  return encoded[encoding]
 }
 
 export class RenderingServer extends Server {
   private APIClient!: APIClientClass
-  protected spinner?: { raw: string, gzip: Buffer, brotli: Buffer }
-  protected editorJs?: { raw: string, gzip: Buffer, brotli: Buffer }
-  protected editorCss?: { raw: string, gzip: Buffer, brotli: Buffer }
+  protected spinner?: CompressedData
+  protected editorJs?: CompressedData
+  protected editorCss?: CompressedData
 
   constructor (config?: FastifyTxStateOptions) {
     const existingCheckOrigin = config?.checkOrigin
@@ -84,6 +218,8 @@ export class RenderingServer extends Server {
     config.checkOrigin = (req: FastifyRequest) => {
       if (existingCheckOrigin?.(req)) return true
       if (req.routeOptions.url === '/.editing/:version/edit.js' || req.routeOptions.url === '/.edit/*') return true
+      // the admin UI mints share links and logs editors out
+      if ((req.routeOptions.url === '/.share' || req.routeOptions.url === '/.logout') && isNotBlank(process.env.DOSGATO_ADMIN_BASE) && req.headers.origin === new URL(process.env.DOSGATO_ADMIN_BASE).origin) return true
       if (req.routeOptions.url === '/.resources/:version/:file') {
         return req.headers.origin === 'null'
       }
@@ -97,20 +233,35 @@ export class RenderingServer extends Server {
     super(config)
 
     void this.app.register(cookie)
+
+    this.app.addHook('onRequest', (req, res, done) => { traceRequest(req, done) })
+    this.app.addHook('onError', async (req, res, error) => { recordRequestError(req, error) })
+    this.app.addHook('onResponse', async (req, res) => {
+      endRequestSpan(req, res.statusCode)
+      const pending = pendingRenders.get(req)
+      if (pending) recordRender(req, res, pending.api, res.statusCode, pending.extension)
+    })
     this.app.addHook('preHandler', async (req, res) => {
       const token: string | undefined = (req as any).query?.token
       if (token) {
-        void res.setCookie('dg_token', token, { httpOnly: true, sameSite: 'strict', path: '/.edit/' })
-        void res.setCookie('dg_token', token, { httpOnly: true, sameSite: 'strict', path: '/.preview/' })
-        void res.setCookie('dg_token', token, { httpOnly: true, sameSite: 'strict', path: '/.compare/' })
-        void res.setCookie('dg_token', token, { httpOnly: true, sameSite: 'strict', path: '/.asset/' })
-        void res.setCookie('dg_token', token, { httpOnly: true, sameSite: 'strict', path: '/.page/' })
+        // the cookie should go away when the token stops working
+        const expiration = tokenExpiration(token)
+        const maxAge = expiration ? Math.floor((expiration.getTime() - Date.now()) / 1000) : undefined
+        if (maxAge == null || maxAge > 0) {
+          for (const path of tokenCookiePaths) void res.setCookie('dg_token', token, { httpOnly: true, sameSite: 'strict', path, maxAge })
+        }
         const withoutToken = new URL(req.url, `${req.protocol}://${req.host}`)
         withoutToken.searchParams.delete('token')
         void res.redirect(withoutToken.toString(), 302)
       }
     })
 
+    // keep search engines away from anything that isn't the live site
+    this.app.addHook('onSend', async (req, res, payload) => {
+      if (nonLiveRoutePrefixes.some(p => req.routeOptions.url?.startsWith(p))) void res.header('X-Robots-Tag', 'noindex, nofollow')
+      return payload
+    })
+
     /**
      * Route for preview renders - no edit bars, anonymous access only when
      * :version is 'public'
@@ -119,50 +270,220 @@ export class RenderingServer extends Server {
       '/.preview/:version/*',
       async (req, res) => {
         const { path, extension } = parsePath(req.params['*'])
-        const published = req.params.version === 'public' ? true : undefined
-        const version = published || req.params.version === 'latest' ? undefined : parseInt(req.params.version, 10)
-        if (version != null && isNaN(version)) throw new HttpError(404)
+        const parsed = parseVersion(req.params.version)
+        if (!parsed) throw new HttpError(404)
+        const { published, version } = parsed
+        const token = getToken(req)
+        if (!token && !published) return await reauthenticate(req, res)
+        const api = new this.APIClient<RenderingAPIClient>(!!published, req)
+        api.context = 'preview'
+        startRender(req, api, extension)
+        const page = await rescue(api.getPreviewPage(token, path, schemaversion, published, version), { condition: e => e.message.includes('permitted') })
+        if (!page) throw new HttpError(404)
+        api.pagetreeId = page.pagetree.id
+        api.siteId = page.site.id
+        api.sitename = page.site.name
+        const output = await renderPage(api, req, res, page, extension, false)
+        recordRender(req, res, api, res.statusCode, extension)
+        setValidators(res, output, api)
+        return await sendRendered(req, res, output)
+      }
+    )
+
+    /**
+     * Route for the admin UI to list a page version's broken links before publishing. Renders
+     * the page like the preview route and returns each broken link along with the path of the
+     * component that produced it. Links to other websites are listed under `external` for the
+     * link checker, which can check whether they still respond.
+     */
+    this.app.get<{ Params: { '*': string, version: string }, Querystring: { token?: string } }>(
+      '/.brokenlinks/:version/*',
+      async (req, res) => {
+        const { path } = parsePath(req.params['*'])
+        const parsed = parseVersion(req.params.version)
+        if (!parsed) throw new HttpError(404)
+        const { published, version } = parsed
         const token = getToken(req)
-        if (!token && !published) void res.redirect(`${process.env.DOSGATO_ADMIN_BASE!}/preview?url=${encodeURIComponent(`${req.protocol}://${req.host}${req.url}`)}`, 302)
+        if (!token) throw new HttpError(401)
         const api = new this.APIClient<RenderingAPIClient>(!!published, req)
         api.context = 'preview'
+        startRender(req, api, 'html')
         const page = await rescue(api.getPreviewPage(token, path, schemaversion, published, version), { condition: e => e.message.includes('permitted') })
         if (!page) throw new HttpError(404)
         api.pagetreeId = page.pagetree.id
         api.siteId = page.site.id
         api.sitename = page.site.name
-        return await renderPage(api, req, res, page, extension, false)
+        await renderPage(api, req, withoutPreloading(res), page, 'html', false)
+        recordRender(req, res, api, res.statusCode, 'html')
+        void res.type('application/json')
+        return { path: page.path, count: api.brokenLinks.length, links: api.brokenLinks, external: api.externalLinks }
+      }
+    )
+
+    /**
+     * Route for share links - renders an unpublished page version for someone with no
+     * DosGato account, as long as the signed token in the URL is valid for the page
+     */
+    this.app.get<{ Params: { '*': string, token: string } }>(
+      '/.share/:token/*',
+      async (req, res) => {
+        const { path, extension } = parsePath(req.params['*'])
+        const claims = await verifyShareToken(req.params.token, path)
+        const api = new this.APIClient<RenderingAPIClient>(false, req)
+        api.context = 'preview'
+        startRender(req, api, extension)
+        const page = await api.getSharedPage(path, schemaversion, claims.version)
+        if (page?.id !== claims.pageId) throw new HttpError(404)
+        api.pagetreeId = page.pagetree.id
+        api.siteId = page.site.id
+        api.sitename = page.site.name
+        const output = await renderPage(api, req, res, page, extension, false)
+        recordRender(req, res, api, res.statusCode, extension)
+        // the token is in the URL, don't leak it to other sites or keep it in shared caches
+        void res.header('Referrer-Policy', 'no-referrer')
+        void res.header('Cache-Control', 'private, no-cache')
+        setValidators(res, output, api)
+        return await sendRendered(req, res, output)
       }
     )
 
     /**
-     * Route for a diff render that compares two versions
+     * Route for minting a share link to a page the requesting user can see
+     *
+     * Body takes the page path, an optional version (latest if omitted), and an optional
+     * lifetime in seconds.
+     */
+    this.app.post<{ Body: { path: string, version?: number, expiresIn?: number } }>('/.share', async (req, res) => {
+      const token = getToken(req)
+      if (!token) throw new HttpError(401)
+      const { path, version, expiresIn } = req.body ?? {}
+      if (!path) throw new HttpError(400, 'A page path is required.')
+      const api = new this.APIClient<RenderingAPIClient>(false, req)
+      const page = await rescue(api.getPreviewPage(token, path, schemaversion, undefined, version), { condition: e => e.message.includes('permitted') })
+      if (!page) throw new HttpError(404)
+      const share = await mintShareToken({ pageId: page.id, path: page.path, version }, expiresIn)
+      return { url: `${req.protocol}://${req.host}/.share/${share.token}${page.path}.html`, expiresAt: share.expiresAt }
+    })
+
+    /**
+     * Route for revoking all share links issued so far for some pages, e.g. when one was
+     * sent to the wrong person. Revocations are recorded in the file named by
+     * DOSGATO_RENDER_SHARE_REVOCATIONS_FILE, which all instances must share.
+     *
+     * Requires a bearer token signed with the shared render secret.
      */
-    this.app.get<{ Params: { '*': string, fromVersion: string, toVersion: string }, Querystring: { token?: string } }>(
+    this.app.post<{ Body: { pageIds?: string[] } | undefined }>('/.share/revoke', async (req, res) => {
+      await verifyServiceToken(req)
+      await revokeShareLinks(req.body?.pageIds ?? [])
+      return { success: true }
+    })
+
+    /**
+     * Route for a diff render that compares two versions. Either version may be a number,
+     * `public` or `latest`, like the preview route.
+     *
+     * ?view=inline (default) marks changes in a single page, ?view=sidebyside shows the two
+     * versions next to each other, ?view=structure outlines each added, moved or edited
+     * component in the newer version, and ?view=summary lists the components that changed in
+     * each area. ?format=json returns the summary and the component changes as JSON for the
+     * admin UI.
+     */
+    this.app.get<{ Params: { '*': string, fromVersion: string, toVersion: string }, Querystring: { token?: string, view?: 'inline' | 'sidebyside' | 'structure' | 'summary', format?: 'json' } }>(
       '/.compare/:fromVersion/:toVersion/*',
       async (req, res) => {
         const { path, extension } = parsePath(req.params['*'])
         const token = getToken(req)
-        if (!token) void res.redirect(`${process.env.DOSGATO_ADMIN_BASE!}/preview?url=${encodeURIComponent(`${req.protocol}://${req.host}${req.url}`)}`, 302)
+        if (!token) return await reauthenticate(req, res)
         const api = new this.APIClient<RenderingAPIClient>(false, req)
         api.context = 'preview'
-        const fromVersionNum = parseInt(req.params.fromVersion, 10)
-        const toVersionNum = parseInt(req.params.toVersion, 10)
-        if (isNaN(fromVersionNum) || isNaN(toVersionNum)) throw new HttpError(404)
+        const from = parseVersion(req.params.fromVersion)
+        const to = parseVersion(req.params.toVersion)
+        if (!from || !to) throw new HttpError(404)
         const [fromPage, toPage] = await Promise.all([
-          rescue(api.getPreviewPage(token, path, schemaversion, undefined, fromVersionNum), { condition: e => e.message.includes('permitted') }),
-          rescue(api.getPreviewPage(token, path, schemaversion, undefined, toVersionNum), { condition: e => e.message.includes('permitted') })
+          rescue(api.getPreviewPage(token, path, schemaversion, from.published, from.version), { condition: e => e.message.includes('permitted') }),
+          rescue(api.getPreviewPage(token, path, schemaversion, to.published, to.version), { condition: e => e.message.includes('permitted') })
         ])
         if (!fromPage || !toPage) throw new HttpError(404)
+        const fromLabel = versionLabel(from)
+        const toLabel = versionLabel(to)
+        if (req.query.format === 'json') return { path: toPage.path, from: fromLabel, to: toLabel, ...summarizeChanges(fromPage.data, toPage.data), changes: await pageChanges(api, fromPage, toPage) }
+        if (req.query.view === 'summary') {
+          void res.type('text/html')
+          return await sendRendered(req, res, renderSummary(summarizeChanges(fromPage.data, toPage.data), toPage.path, fromLabel, toLabel))
+        }
         api.pagetreeId = toPage.pagetree.id
         api.siteId = fromPage.site.id
         api.sitename = fromPage.site.name
+        startRender(req, api, extension)
+        if (req.query.view === 'structure') {
+          const output = await renderPage(api, req, withoutPreloading(res), toPage, extension, false, await pageChanges(api, fromPage, toPage))
+          recordRender(req, res, api, res.statusCode, extension)
+          return await sendRendered(req, res, output)
+        }
+        // the older version gets its own client and renders into a recorder, so that timing,
+        // broken link counts and other headers describe only the newer version
+        const fromApi = new this.APIClient<RenderingAPIClient>(false, req)
+        fromApi.context = 'preview'
+        fromApi.pagetreeId = fromPage.pagetree.id
+        fromApi.siteId = fromPage.site.id
+        fromApi.sitename = fromPage.site.name
+        // both versions end up in one document under one Content-Security-Policy
+        fromApi.cspNonce = api.cspNonce
+        const fromRes = new RenderRecorder()
         const [fromHTML, toHTML] = await Promise.all([
-          renderPage(api, req, res, fromPage, extension, false),
-          renderPage(api, req, res, toPage, extension, false)
+          renderPage(fromApi, req, fromRes, fromPage, extension, false),
+          renderPage(api, req, withoutPreloading(res), toPage, extension, false)
         ])
-        const ret = htmldiff(fromHTML, toHTML)
-        return ret.replace(/<\/head>/, '<style>ins { background-color: lightgreen; } del { background-color: pink; }</style></head>')
+        if (fromRes.statusCode >= 500) void res.status(fromRes.statusCode)
+        recordRender(req, res, api, res.statusCode, extension)
+        return await sendRendered(req, res, req.query.view === 'sidebyside' ? sideBySideDiff(fromHTML, toHTML, fromLabel, toLabel, api.cspNonce) : inlineDiff(fromHTML, toHTML, api.cspNonce))
+      }
+    )
+
+    /**
+     * Route for a report of every broken link in a page and the pages beneath it, e.g. a whole
+     * pagetree when given its root page. Needs a user token, and every page is checked as
+     * that user.
+     *
+     * ?published=1 checks published versions instead of the latest, ?external=1 also checks
+     * links to other websites, and ?format=csv returns a spreadsheet instead of JSON.
+     *
+     * The whole check runs inside this request, so it stops after
+     * DOSGATO_RENDER_LINKCHECK_MAX_PAGES pages and marks the report as truncated. Use
+     * LinkChecker directly in a job for anything bigger.
+     */
+    this.app.get<{ Params: { '*': string }, Querystring: { token?: string, published?: string, external?: string, format?: 'json' | 'csv' } }>(
+      '/.linkcheck/*',
+      async (req, res) => {
+        const { path } = parsePath(req.params['*'])
+        const token = getToken(req)
+        if (!token) throw new HttpError(401)
+        const published = isNotBlank(req.query.published) && req.query.published !== '0' ? true : undefined
+        const api = new this.APIClient<RenderingAPIClient>(!!published, req)
+        const root = await rescue(api.getPreviewPage(token, path, schemaversion, published), { condition: e => e.message.includes('permitted') })
+        if (!root) throw new HttpError(404)
+        const report = await new LinkChecker(this, { token, root, published, checkExternal: isNotBlank(req.query.external) && req.query.external !== '0' }).run()
+        if (req.query.format !== 'csv') return report
+        void res.type('text/csv')
+        void res.header('Content-Disposition', `attachment; filename="linkcheck-${root.site.name}.csv"`)
+        return linkReportToCsv(report)
+      }
+    )
+
+    /**
+     * Route listing the versions of a page, with links to preview and compare them. Same
+     * authentication as preview.
+     */
+    this.app.get<{ Params: { '*': string }, Querystring: { token?: string } }>(
+      '/.history/*',
+      async (req, res) => {
+        const { path } = parsePath(req.params['*'])
+        const token = getToken(req)
+        if (!token) return await reauthenticate(req, res)
+        const api = new this.APIClient<RenderingAPIClient>(false, req)
+        const output = await rescue(renderHistory(api, res, token, path), { condition: e => e.message.includes('permitted') })
+        if (output == null) throw new HttpError(404)
+        return await sendRendered(req, res, output)
       }
     )
 
@@ -177,21 +498,30 @@ export class RenderingServer extends Server {
         const { path, extension } = parsePath(req.params['*'])
         const api = new this.APIClient<RenderingAPIClient>(false, req)
         api.context = 'edit'
+        startRender(req, api, extension)
         const page = await api.getPreviewPage(token, path, schemaversion)
         if (!page) throw new HttpError(404)
         api.pagetreeId = page.pagetree.id
         api.siteId = page.site.id
         api.sitename = page.site.name
-        return await renderPage(api, req, res, page, extension, true)
+        const output = await renderPage(api, req, res, page, extension, true)
+        recordRender(req, res, api, res.statusCode, extension)
+        return await sendRendered(req, res, output)
       }
     )
 
     /**
-     * Route for fetching CSS and JS from our registered templates, anonymous OK
+     * Route for fetching CSS, JS and files from our registered templates, anonymous OK
+     *
+     * :version is normally a hash of the resource's content. Older HTML may still use an old
+     * hash or the build's resourceversion instead, which is served the same way but not cached
+     * forever, since the content may have changed since then. Bundles are the exception, see
+     * findBundle.
      */
-    this.app.get<{ Params: { version: string, file: string } }>('/.resources/:version/:file', async (req, res) => {
+    this.app.get<{ Params: { version: string, file: string }, Querystring: { blocks?: string } }>('/.resources/:version/:file', async (req, res) => {
       const [blockName, ...extensionParts] = req.params.file.split('.')
       const extension = extensionParts.join('.')
+      if (blockName.startsWith('bundle-')) return await this.sendBundle(req, res, blockName, extension)
       const block = extension.includes('css')
         ? templateRegistry.cssblocks.get(blockName)
         : (
@@ -200,17 +530,15 @@ export class RenderingServer extends Server {
               : templateRegistry.files.get(blockName)
           )
       if (!block) throw new HttpError(404)
-      void res.header('Cache-Control', 'max-age=31536000, immutable')
+      void res.header('Cache-Control', req.params.version === block.hash ? 'max-age=31536000, immutable' : 'max-age=600')
       if ('css' in block && extension === 'css') {
         void res.type('text/css')
-        void res.header('Content-Length', block.size)
-        if (block.map?.length) void res.header('SourceMap', `/.resources/${req.params.version}/${blockName}.css.map`)
-        return block.css
+        if (block.map?.length) void res.header('SourceMap', `/.resources/${block.hash}/${blockName}.css.map`)
+        return sendPrecompressed(req, res, block.compressed!)
       } else if ('js' in block && extension === 'js') {
         void res.type('text/javascript')
-        void res.header('Content-Length', block.size)
-        if (block.map?.length) void res.header('SourceMap', `/.resources/${req.params.version}/${blockName}.js.map`)
-        return block.js
+        if (block.map?.length) void res.header('SourceMap', `/.resources/${block.hash}/${blockName}.js.map`)
+        return sendPrecompressed(req, res, block.compressed!)
       } else if (extension === 'css.map' && 'map' in block) {
         return block.map ?? ''
       } else if (extension === 'js.map' && 'map' in block) {
@@ -232,15 +560,7 @@ export class RenderingServer extends Server {
     this.app.get('/.editing/:version/edit.js', async (req, res) => {
       void res.header('Content-Type', 'application/javascript')
       void res.header('Cache-Control', 'max-age=31536000, immutable')
-      if (/\bbr\b/.test(req.headers['accept-encoding'] ?? '')) {
-        void res.header('Content-Encoding', 'br')
-        return this.editorJs!.brotli
-      }
-      if (/\bgzip\b/.test(req.headers['accept-encoding'] ?? '')) {
-        void res.header('Content-Encoding', 'gzip')
-        return this.editorJs!.gzip
-      }
-      return this.editorJs!.raw
+      return sendPrecompressed(req, res, this.editorJs!)
     })
 
     /**
@@ -249,15 +569,7 @@ export class RenderingServer extends Server {
     this.app.get('/.editing/:version/edit.css', async (req, res) => {
       void res.header('Content-Type', 'text/css')
       void res.header('Cache-Control', 'max-age=31536000, immutable')
-      if (/\bbr\b/.test(req.headers['accept-encoding'] ?? '')) {
-        void res.header('Content-Encoding', 'br')
-        return this.editorCss!.brotli
-      }
-      if (/\bgzip\b/.test(req.headers['accept-encoding'] ?? '')) {
-        void res.header('Content-Encoding', 'gzip')
-        return this.editorCss!.gzip
-      }
-      return this.editorCss!.raw
+      return sendPrecompressed(req, res, this.editorCss!)
     })
 
     /**
@@ -277,21 +589,13 @@ export class RenderingServer extends Server {
       const query = new URLSearchParams((req.query ?? {}) as Record<string, string>)
       query.set('admin', '1')
       const resp = await download(`${process.env.DOSGATO_API_BASE!}/assets/${encodeURI(req.params['*'])}?${query.toString()}`, token, req.headers)
-      return await proxy(resp, res)
+      return await proxy(resp, res, bytes => { assetProxyBytesCounter.inc(bytes) })
     })
 
     this.app.get('/.editing/:version/spinner.html', async (req, res) => {
       void res.type('text/html')
       void res.header('Cache-Control', 'max-age=31536000, immutable')
-      if (/\bbr\b/.test(req.headers['accept-encoding'] ?? '')) {
-        void res.header('Content-Encoding', 'br')
-        return this.spinner!.brotli
-      }
-      if (/\bgzip\b/.test(req.headers['accept-encoding'] ?? '')) {
-        void res.header('Content-Encoding', 'gzip')
-        return this.spinner!.gzip
-      }
-      return this.spinner!.raw
+      return sendPrecompressed(req, res, this.spinner!)
     })
 
     this.app.get<{ Querystring: any, Params: { '*': string } }>('/.page/*', async (req, res) => {
@@ -305,47 +609,169 @@ export class RenderingServer extends Server {
       throw new HttpError(404)
     })
 
+    /**
+     * Route that reports who the dg_token belongs to and when it expires
+     *
+     * The admin UI also sends users here with ?token= to set the cookie.
+     */
     this.app.get('/.token', async (req, res) => {
+      const token = getToken(req)
+      if (!token) throw new HttpError(401)
+      const api = new this.APIClient<RenderingAPIClient>(false, req)
+      const id = await api.identifyToken(token)
+      if (!id) throw new HttpError(401)
+      return { id, expiresAt: tokenExpiration(token) }
+    })
+
+    /**
+     * Route to remove the dg_token cookie from every path it was set on
+     *
+     * A POST so that other sites can't log editors out with a link or an image, since
+     * cross-origin POSTs are refused by checkOrigin.
+     */
+    this.app.post('/.logout', async (req, res) => {
+      for (const path of tokenCookiePaths) void res.clearCookie('dg_token', { path })
       return 'OK'
     })
 
+    /**
+     * Route for Prometheus to scrape
+     *
+     * Every site's hostname reaches this server, so metrics are only served once
+     * DOSGATO_RENDER_METRICS_TOKEN is set, and then only with it as a bearer token.
+     */
+    this.app.get('/metrics', async (req, res) => {
+      const metricsToken = process.env.DOSGATO_RENDER_METRICS_TOKEN
+      if (!isNotBlank(metricsToken)) throw new HttpError(404)
+      if (req.headers.authorization !== `Bearer ${metricsToken}`) throw new HttpError(401)
+      void res.type(metricsRegistry.contentType)
+      return await metricsRegistry.metrics()
+    })
+
+    /**
+     * Route for dropping entries from the render cache, e.g. after a publish
+     *
+     * Requires a bearer token signed with the shared render secret.
+     */
+    this.app.post<{ Body: { pageIds?: string[], siteIds?: string[], tags?: string[], all?: boolean } | undefined }>('/.cache/purge', async (req, res) => {
+      await verifyServiceToken(req)
+      const { pageIds, siteIds, tags, all } = req.body ?? {}
+      if (all) renderCache.purgeAll()
+      else {
+        renderCache.purgePages(pageIds ?? [])
+        renderCache.purgeSites(siteIds ?? [])
+        renderCache.purgeTags(tags ?? [])
+      }
+      return { success: true, size: renderCache.size }
+    })
+
     /**
      * Route to serve launched web pages to anonymous users
      */
     this.app.get<{ Params: { '*': string } }>('*', async (req, res) => {
       const { path, extension } = parsePath(req.params['*'])
       if (path && path !== '/' && !extension) return await res.redirect(`${encodeURI(path)}.html${new URL(req.url, 'http://example.com').search}`, 301)
-      const api = new this.APIClient<RenderingAPIClient>(true, req)
-      api.context = 'live'
-      const pagePath = (path === '/.root') ? '/' : path
-      const hostname = req.hostname
-      let page = await api.getLaunchedPage(hostname, pagePath, schemaversion)
-      let usingDefault404 = false
-      if (!page) {
-        const siteInfo = await api.getSiteInfoByLaunchUrl(`http://${hostname}${pagePath}`)
-        if (siteInfo || !((!process.env.DOSGATO_ADMIN_REDIRECT_HOSTNAME || hostname === process.env.DOSGATO_ADMIN_REDIRECT_HOSTNAME) && (path === '' || path === '/'))) {
-          void res.status(404)
-          if (siteInfo) page = await api.getLaunchedPage(hostname, siteInfo.url.path + '404', schemaversion)
-          if (!page && isNotBlank(process.env.DOSGATO_DEFAULT_HOSTNAME)) {
-            page = await api.getLaunchedPage(process.env.DOSGATO_DEFAULT_HOSTNAME, '/404', schemaversion)
-            usingDefault404 = true
-          }
-        } else return await res.redirect(process.env.DOSGATO_ADMIN_BASE!, 302)
+      if (!renderCache.enabled) {
+        const { output, api } = await this.renderLive(req, res, path, extension)
+        recordRender(req, res, api, res.statusCode, extension)
+        return await sendRendered(req, res, output)
       }
-      if (!page) throw new HttpError(404)
-      api.sitePrefix = page.site.url.prefix
-      api.pagetreeId = page.pagetree.id
-      api.siteId = page.site.id
-      // if we don't set a sitename links will always be absolute
-      // we want this if we're serving the default hostname's 404 on some other hostname
-      // or else relative links will break
-      if (!usingDefault404) api.sitename = page.site.name
-      return await renderPage(api, req, res, page, extension, false)
+      const key = renderCache.key(req.hostname, path, extension, new URL(req.url, 'http://example.com').search)
+      const entry = await renderCache.get(key, async () => {
+        const recorder = new RenderRecorder()
+        const { output, api } = await this.renderLive(req, recorder, path, extension)
+        // when this is a background refresh the response is long gone, but that's harmless
+        recordRender(req, res, api, recorder.statusCode, extension)
+        return recorder.finish(output, Array.from(api.dependencies), api.cspNonce)
+      })
+      if (!entry.nonce) entry.encoded ??= {}
+      return await sendRendered(req, res, renderCache.send(entry, res), entry.encoded)
     })
   }
 
+  /**
+   * Render a launched page for the live route. Everything is written to `res` through the
+   * RenderReply interface so that the output can be captured for the render cache.
+   */
+  protected async renderLive (req: FastifyRequest, res: RenderReply, path: string, extension: string | undefined) {
+    const api = new this.APIClient<RenderingAPIClient>(true, req)
+    api.context = 'live'
+    startRender(req, api, extension)
+    const output = (path === '/robots' && extension === 'txt' ? await renderRobots(api, res, req.hostname) : undefined)
+      ?? (extension === 'xml' ? await renderSitemap(api, res, req.hostname, path) : undefined)
+      ?? await this.renderLivePage(api, req, res, path, extension)
+    setValidators(res, output, api)
+    if (api.dependencies.size) {
+      res.header('Surrogate-Key', api.dependencyHeader(' '))
+      res.header('Cache-Tag', api.dependencyHeader(','))
+    }
+    return { output, api }
+  }
+
+  protected async renderLivePage (api: RenderingAPIClient, req: FastifyRequest, res: RenderReply, path: string, extension: string | undefined) {
+    const pagePath = (path === '/.root') ? '/' : path
+    const hostname = req.hostname
+    let page = await api.getLaunchedPage(hostname, pagePath, schemaversion)
+    let usingDefault404 = false
+    if (!page) {
+      const siteInfo = await api.getSiteInfoByLaunchUrl(`http://${hostname}${pagePath}`)
+      if (siteInfo || !((!process.env.DOSGATO_ADMIN_REDIRECT_HOSTNAME || hostname === process.env.DOSGATO_ADMIN_REDIRECT_HOSTNAME) && (path === '' || path === '/'))) {
+        res.status(404)
+        if (siteInfo) page = await api.getLaunchedPage(hostname, siteInfo.url.path + '404', schemaversion)
+        if (!page && isNotBlank(process.env.DOSGATO_DEFAULT_HOSTNAME)) {
+          page = await api.getLaunchedPage(process.env.DOSGATO_DEFAULT_HOSTNAME, '/404', schemaversion)
+          usingDefault404 = true
+        }
+      } else {
+        res.status(302)
+        res.header('Location', process.env.DOSGATO_ADMIN_BASE!)
+        return ''
+      }
+    }
+    if (!page) throw new HttpError(404)
+    api.sitePrefix = page.site.url.prefix
+    api.pagetreeId = page.pagetree.id
+    api.siteId = page.site.id
+    // if we don't set a sitename links will always be absolute
+    // we want this if we're serving the default hostname's 404 on some other hostname
+    // or else relative links will break
+    if (!usingDefault404) api.sitename = page.site.name
+    return await renderPage(api, req, res, page, extension, false)
+  }
+
+  /**
+   * Serve a bundle of CSS or JS blocks from bundleBlocks(), or its source map
+   */
+  protected async sendBundle (req: FastifyRequest<{ Querystring: { blocks?: string } }>, res: FastifyReply, name: string, extension: string) {
+    const bundle = findBundle(`${name}.${extension.replace(/\.map$/, '')}`, req.query.blocks)
+    if (!bundle) throw new HttpError(404)
+    void res.header('Cache-Control', 'max-age=31536000, immutable')
+    if (extension.endsWith('.map')) {
+      void res.type('application/json')
+      return bundle.map
+    }
+    void res.type(bundle.extension === 'css' ? 'text/css' : 'text/javascript')
+    void res.header('SourceMap', bundleMapHref(bundle))
+    return sendPrecompressed(req, res, await compressBundle(bundle))
+  }
+
   async start (options?: number | RenderingServerOptions) {
     const opts = typeof options === 'number' ? { port: options } : options
+    await this.prepare(opts)
+    await super.start(opts?.port)
+  }
+
+  /**
+   * Export a launched site to static files instead of starting the server. Templates are
+   * registered the same way as start(), and pages render through the live route.
+   */
+  async exportSite (options: RenderingServerOptions & ExportOptions) {
+    await this.prepare(options)
+    return await new SiteExporter(this, options).run()
+  }
+
+  protected async prepare (opts?: RenderingServerOptions) {
+    startTracing()
     this.APIClient = opts?.CustomAPIClient ?? RenderingAPIClient as APIClientClass
     for (const p of [...(opts?.providers ?? []), ...(opts?.templates ?? [])]) {
       templateRegistry.registerSass(p)
@@ -363,7 +789,6 @@ export class RenderingServer extends Server {
     this.spinner = await spinnerPromise
     this.editorJs = await editorJsPromise
     this.editorCss = await editorCssPromise
-    await super.start(opts?.port)
   }
 
   async addTemplate (template: any) { await templateRegistry.addTemplate(template) }
@@ -0,0 +1,119 @@
+import { createHmac, createSecretKey } from 'node:crypto'
+import { appendFile, readFile, stat } from 'node:fs/promises'
+import { HttpError } from 'fastify-txstate'
+import { SignJWT, jwtVerify } from 'jose'
+import { isBlank, rescue } from 'txstate-utils'
+import { jwtSignKey } from './util.js'
+
+/**
+ * Share links are signed with a key derived from the render secret rather than the secret
+ * itself. They end up in URLs that get passed around, and the API accepts tokens signed
+ * with the render secret, so a share token must never be usable as one of those.
+ */
+const shareSignKey = createSecretKey(createHmac('sha256', jwtSignKey.export()).update('dosgato-share-links').digest())
+
+/**
+ * Longest a share link may stay valid, in seconds. Defaults to 30 days.
+ */
+const shareMaxSeconds = Number(process.env.DOSGATO_RENDER_SHARE_MAX_SECONDS ?? 30 * 24 * 3600) || 30 * 24 * 3600
+
+/**
+ * How long a share link stays valid when the person minting it doesn't say, in seconds.
+ * Defaults to 7 days.
+ */
+const shareDefaultSeconds = Math.min(Number(process.env.DOSGATO_RENDER_SHARE_DEFAULT_SECONDS ?? 7 * 24 * 3600) || 7 * 24 * 3600, shareMaxSeconds)
+
+export interface ShareClaims {
+  pageId: string
+  path: string
+  /**
+   * The page version to show. When absent the link always shows the latest unpublished
+   * version.
+   */
+  version?: number
+}
+
+/**
+ * File that records revocations so that they survive restarts, one JSON line per revoked
+ * page. Every instance serving share links must use the same file, e.g. on a shared volume,
+ * or a link revoked on one instance keeps working on the others. Share links are disabled
+ * when it isn't set, since they couldn't be revoked reliably.
+ */
+const revocationsFile = process.env.DOSGATO_RENDER_SHARE_REVOCATIONS_FILE
+
+/**
+ * Page id -> time in epoch seconds before which all share links for that page are revoked,
+ * as last read from the revocations file
+ */
+let revokedBefore = new Map<string, number>()
+let revocationsVersion: string | undefined
+
+function requireRevocations () {
+  if (isBlank(revocationsFile)) throw new HttpError(503, 'Share links are not enabled on this server.')
+  return revocationsFile
+}
+
+/**
+ * Another instance may have revoked links since we last looked, so check the file before
+ * trusting a token. It's only read again when it has changed.
+ */
+async function loadRevocations () {
+  const file = requireRevocations()
+  const info = await rescue(stat(file), { condition: e => (e as NodeJS.ErrnoException).code === 'ENOENT' })
+  const version = info && `${info.mtimeMs}:${info.size}`
+  if (version === revocationsVersion) return
+  const revoked = new Map<string, number>()
+  const lines = info ? (await readFile(file, 'utf8')).split('\n') : []
+  for (const line of lines) {
+    if (isBlank(line)) continue
+    try {
+      const { pageId, revokedAt } = JSON.parse(line) as { pageId: string, revokedAt: number }
+      revoked.set(pageId, Math.max(revokedAt, revoked.get(pageId) ?? 0))
+    } catch {
+      console.error(`Skipping unreadable line in share link revocations file ${file}.`)
+    }
+  }
+  revokedBefore = revoked
+  revocationsVersion = version
+}
+
+export async function mintShareToken (claims: ShareClaims, expiresIn?: number) {
+  requireRevocations()
+  const seconds = Math.min(Math.max(Math.round(expiresIn ?? shareDefaultSeconds), 1), shareMaxSeconds)
+  const expiresAt = new Date(Date.now() + seconds * 1000)
+  const token = await new SignJWT({ ...claims })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setIssuedAt()
+    .setExpirationTime(Math.floor(expiresAt.getTime() / 1000))
+    .sign(shareSignKey)
+  return { token, expiresAt }
+}
+
+/**
+ * Check a share token and make sure it was issued for the requested page path. Throws an
+ * HttpError with a message suitable for showing to the recipient when it's no good.
+ */
+export async function verifyShareToken (token: string, path: string) {
+  let payload: ShareClaims & { iat?: number }
+  try {
+    payload = (await jwtVerify<ShareClaims>(token, shareSignKey)).payload
+  } catch {
+    throw new HttpError(401, 'This share link is invalid or has expired.')
+  }
+  if (payload.path !== path) throw new HttpError(404)
+  await loadRevocations()
+  if ((payload.iat ?? 0) <= (revokedBefore.get(payload.pageId) ?? -1)) throw new HttpError(401, 'This share link has been revoked.')
+  return payload
+}
+
+/**
+ * Revoke every share link that has been issued so far for the given pages. Links minted
+ * afterward work normally.
+ */
+export async function revokeShareLinks (pageIds: string[]) {
+  const file = requireRevocations()
+  if (!pageIds.length) return
+  const revokedAt = Math.floor(Date.now() / 1000)
+  // one write per call, so that lines from instances revoking at the same time don't interleave
+  await appendFile(file, pageIds.map(pageId => JSON.stringify({ pageId, revokedAt }) + '\n').join(''))
+}
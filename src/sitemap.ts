@@ -0,0 +1,71 @@
+import { htmlEncode } from 'txstate-utils'
+import type { RenderingAPIClient } from './api.js'
+import type { RenderReply } from './render.js'
+import { flattenNavigation } from './util.js'
+
+/**
+ * The sitemap protocol allows at most 50,000 URLs in a single file. Sites with more pages
+ * than that get a sitemap index at /sitemap.xml pointing at /sitemap-1.xml, /sitemap-2.xml, etc.
+ */
+const SITEMAP_MAX_URLS = 50000
+
+const SITEMAP_NS = 'http://www.sitemaps.org/schemas/sitemap/0.9'
+
+interface SitemapEntry {
+  loc: string
+  lastmod?: Date
+}
+
+function lastmod (date: Date | undefined) {
+  return date ? `<lastmod>${date.toISOString()}</lastmod>` : ''
+}
+
+/**
+ * Build a sitemap for the launched site at the given hostname and path, or return undefined if
+ * the path is not the sitemap location for a launched site, so that the caller can fall back
+ * to a normal page lookup.
+ *
+ * `path` is the request path without extension, e.g. /sitemap or /subsite/sitemap-2
+ *
+ * Page templates can keep their pages out of the sitemap by setting `excludeFromSitemap` in
+ * their templateProperties, and an individual page can do the same with an `excludeFromSitemap`
+ * property in its page data.
+ */
+export async function renderSitemap (api: RenderingAPIClient, res: RenderReply, hostname: string, path: string) {
+  const match = /^(.*\/)sitemap(?:-(\d+))?$/.exec(path)
+  if (!match) return undefined
+  const [, sitePath, part] = match
+  const site = await api.getSiteInfoByLaunchUrl(`http://${hostname}${sitePath}`)
+  if (site?.url.path !== sitePath) return undefined
+  api.pagetreeId = site.primaryPagetree.id
+  api.siteId = site.id
+
+  const [templateByKey, roots] = await Promise.all([
+    api.getTemplates(),
+    api.getNavigation({ published: true, absolute: true, extra: ['templateKey', 'excludeFromSitemap'] })
+  ])
+  const entries: SitemapEntry[] = flattenNavigation(roots)
+    .filter(p => !p.extra.excludeFromSitemap && !templateByKey[p.extra.templateKey]?.templateProperties?.excludeFromSitemap)
+    // the site's 404 page should never be indexed
+    .filter(p => p.path.split('/').length !== 3 || p.name !== '404')
+    .map(p => ({ loc: p.href, lastmod: p.publishedAt }))
+
+  res.type('application/xml')
+  const sitemapCount = Math.ceil(entries.length / SITEMAP_MAX_URLS)
+  if (part == null && sitemapCount > 1) {
+    const prefix = site.url.prefix.replace(/\/+$/, '')
+    const sitemaps: string[] = []
+    for (let i = 0; i < sitemapCount; i++) {
+      const chunk = entries.slice(i * SITEMAP_MAX_URLS, (i + 1) * SITEMAP_MAX_URLS)
+      const newest = chunk.reduce<Date | undefined>((newest, e) => (e.lastmod && (!newest || e.lastmod > newest)) ? e.lastmod : newest, undefined)
+      sitemaps.push(`<sitemap><loc>${htmlEncode(`${prefix}/sitemap-${i + 1}.xml`)}</loc>${lastmod(newest)}</sitemap>`)
+    }
+    return `<?xml version="1.0" encoding="UTF-8"?>\n<sitemapindex xmlns="${SITEMAP_NS}">\n${sitemaps.join('\n')}\n</sitemapindex>\n`
+  }
+
+  const partNum = part == null ? 1 : parseInt(part, 10)
+  if (partNum < 1 || (partNum > sitemapCount && partNum > 1)) return undefined
+  const urls = entries.slice((partNum - 1) * SITEMAP_MAX_URLS, partNum * SITEMAP_MAX_URLS)
+    .map(e => `<url><loc>${htmlEncode(e.loc)}</loc>${lastmod(e.lastmod)}</url>`)
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<urlset xmlns="${SITEMAP_NS}">\n${urls.join('\n')}\n</urlset>\n`
+}
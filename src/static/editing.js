@@ -286,7 +286,6 @@ function randomid (length = 10) {
   return String.fromCharCode(97 + Math.floor(Math.random() * 26)) + Math.random().toString(36).slice(2, length + 1)
 }
 const currentUrl = import.meta.url
-const currentVersion = currentUrl.match(/\/.editing\/(.*?)\/edit\.js/)[1]
 const editingCss = currentUrl.replace(/\.js$/, '.css')
 const addIcon = '<svg version="2.0" aria-hidden="true" viewbox="0 0 256 256"><title>Add</title><path fill="currentColor" d="M222 128a6 6 0 0 1-6 6h-82v82a6 6 0 0 1-12 0v-82H40a6 6 0 0 1 0-12h82V40a6 6 0 0 1 12 0v82h82a6 6 0 0 1 6 6Z"/></svg>'
 const editIcon = '<svg version="2.0" aria-hidden="true" viewbox="0 0 256 256"><title>Edit</title><path fill="currentColor" d="m222.6 78.1l-44.7-44.7a14 14 0 0 0-19.8 0l-120 120a14.3 14.3 0 0 0-4.1 9.9V208a14 14 0 0 0 14 14h44.7a14.3 14.3 0 0 0 9.9-4.1l120-120a14.1 14.1 0 0 0 0-19.8ZM48.5 160L136 72.5L155.5 92L68 179.5ZM46 208v-33.5L81.5 210H48a2 2 0 0 1-2-2Zm50-.5L76.5 188l87.5-87.5l19.5 19.5ZM214.1 89.4L192 111.5L144.5 64l22.1-22.1a1.9 1.9 0 0 1 2.8 0l44.7 44.7a1.9 1.9 0 0 1 0 2.8Z"/></svg>'
@@ -308,7 +307,7 @@ class SharedBar extends HTMLElement {
 
   installCss () {
     const style = document.createElement('style')
-    style.innerHTML = `@import url(${editingCss});` + window.dgEditingBlocks.map(block => `@import url(/.resources/${currentVersion}/${block}.css);`).join('')
+    style.innerHTML = `@import url(${editingCss});` + window.dgEditingBlocks.map(href => `@import url(${href});`).join('')
     this.tmpl.appendChild(style)
   }
 
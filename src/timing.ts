@@ -0,0 +1,74 @@
+import type { Component } from '@dosgato/templating'
+import { performance } from 'node:perf_hooks'
+import { withSpan } from './tracing.js'
+
+/**
+ * How many of the slowest components to report for each render
+ */
+const slowestCount = Number(process.env.DOSGATO_RENDER_TIMING_SLOWEST ?? 5) || 5
+
+export type RenderPhase = 'fetch' | 'context' | 'render'
+
+/**
+ * Collects timing information for a single render so that we can tell which phase (or which
+ * component, or the API) made a page slow. Phases and component fetches also get their own
+ * tracing spans.
+ *
+ * Every RenderingAPIClient gets one of these, since it lives exactly as long as the render.
+ */
+export class RenderTiming {
+  protected phases = new Map<RenderPhase, number>()
+  protected components: { templateKey: string, path: string, ms: number }[] = []
+  protected queryCount = 0
+  protected queryMs = 0
+
+  async phase<T> (name: RenderPhase, fn: () => Promise<T> | T) {
+    const start = performance.now()
+    try {
+      return await withSpan(`render ${name}`, { 'dosgato.render.phase': name }, fn)
+    } finally {
+      this.phases.set(name, (this.phases.get(name) ?? 0) + performance.now() - start)
+    }
+  }
+
+  async component<T> (component: Component, fn: () => Promise<T>) {
+    const start = performance.now()
+    try {
+      return await withSpan(`fetch ${component.data.templateKey}`, { 'dosgato.template.key': component.data.templateKey, 'dosgato.component.path': component.path }, fn)
+    } finally {
+      this.components.push({ templateKey: component.data.templateKey, path: component.path, ms: performance.now() - start })
+    }
+  }
+
+  query (ms: number) {
+    this.queryCount++
+    this.queryMs += ms
+  }
+
+  phaseDurations () {
+    return Array.from(this.phases.entries())
+  }
+
+  slowest () {
+    return [...this.components].sort((a, b) => b.ms - a.ms).slice(0, slowestCount)
+  }
+
+  /**
+   * Format for the Server-Timing header, which browser dev tools display in the network panel.
+   */
+  serverTiming () {
+    return [
+      ...Array.from(this.phases.entries()).map(([name, ms]) => `${name};dur=${ms.toFixed(1)}`),
+      `graphql;dur=${this.queryMs.toFixed(1)};desc="${this.queryCount} queries"`,
+      ...this.slowest().map((c, i) => `c${i};dur=${c.ms.toFixed(1)};desc="${c.templateKey} ${c.path}"`)
+    ].join(', ')
+  }
+
+  toJSON () {
+    return {
+      phases: Object.fromEntries(Array.from(this.phases.entries()).map(([name, ms]) => [name, Math.round(ms)])),
+      queries: { count: this.queryCount, ms: Math.round(this.queryMs) },
+      slowest: this.slowest().map(c => ({ ...c, ms: Math.round(c.ms) }))
+    }
+  }
+}
@@ -0,0 +1,137 @@
+import { type Attributes, type Span, SpanKind, SpanStatusCode, context, propagation, trace } from '@opentelemetry/api'
+import { type ExportResult, ExportResultCode, hrTimeToMicroseconds, hrTimeToTimeStamp } from '@opentelemetry/core'
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http'
+import { resourceFromAttributes } from '@opentelemetry/resources'
+import { BatchSpanProcessor, ConsoleSpanExporter, NodeTracerProvider, type ReadableSpan, SimpleSpanProcessor, type SpanExporter, type SpanProcessor } from '@opentelemetry/sdk-trace-node'
+import { ATTR_HTTP_REQUEST_METHOD, ATTR_HTTP_RESPONSE_STATUS_CODE, ATTR_HTTP_ROUTE, ATTR_SERVER_ADDRESS, ATTR_SERVICE_NAME, ATTR_URL_PATH } from '@opentelemetry/semantic-conventions'
+import type { FastifyRequest } from 'fastify'
+import { appendFile } from 'node:fs/promises'
+
+/**
+ * Until startTracing() registers a provider, spans from this tracer are no-ops and cost
+ * next to nothing, so it's safe to use unconditionally.
+ */
+export const tracer = trace.getTracer('@dosgato/render')
+
+/**
+ * Writes finished spans to a file, one JSON object per line. Meant for local testing
+ * when there's no collector around.
+ */
+class FileSpanExporter implements SpanExporter {
+  constructor (protected filename: string) {}
+
+  export (spans: ReadableSpan[], resultCallback: (result: ExportResult) => void) {
+    const lines = spans.map(span => JSON.stringify({
+      traceId: span.spanContext().traceId,
+      spanId: span.spanContext().spanId,
+      parentSpanId: span.parentSpanContext?.spanId,
+      name: span.name,
+      kind: span.kind,
+      timestamp: hrTimeToTimeStamp(span.startTime),
+      durationMicros: hrTimeToMicroseconds(span.duration),
+      attributes: span.attributes,
+      status: span.status,
+      events: span.events
+    }) + '\n')
+    appendFile(this.filename, lines.join(''))
+      .then(() => { resultCallback({ code: ExportResultCode.SUCCESS }) })
+      .catch((error: unknown) => { resultCallback({ code: ExportResultCode.FAILED, error: error as Error }) })
+  }
+
+  async shutdown () { /* nothing is buffered, every export is written right away */ }
+}
+
+let provider: NodeTracerProvider | undefined
+
+/**
+ * Register an OpenTelemetry tracer provider, based on DOSGATO_RENDER_TRACING:
+ *
+ * - `otlp` exports over OTLP/HTTP. The collector is configured with the standard
+ *   OTEL_EXPORTER_OTLP_ENDPOINT or OTEL_EXPORTER_OTLP_TRACES_ENDPOINT variables, and setting
+ *   either one turns this mode on by default.
+ * - `console` prints each span as it finishes.
+ * - `file` appends spans as JSON lines to DOSGATO_RENDER_TRACE_FILE (default traces.jsonl).
+ *
+ * Anything else, or nothing at all, leaves tracing off. The service name comes from
+ * OTEL_SERVICE_NAME and defaults to dosgato-render.
+ */
+export function startTracing () {
+  if (provider) return
+  const mode = process.env.DOSGATO_RENDER_TRACING ?? (process.env.OTEL_EXPORTER_OTLP_ENDPOINT ?? process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT ? 'otlp' : undefined)
+  let spanProcessor: SpanProcessor
+  if (mode === 'otlp') spanProcessor = new BatchSpanProcessor(new OTLPTraceExporter())
+  else if (mode === 'console') spanProcessor = new SimpleSpanProcessor(new ConsoleSpanExporter())
+  else if (mode === 'file') spanProcessor = new SimpleSpanProcessor(new FileSpanExporter(process.env.DOSGATO_RENDER_TRACE_FILE ?? 'traces.jsonl'))
+  else return
+  provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({ [ATTR_SERVICE_NAME]: process.env.OTEL_SERVICE_NAME ?? 'dosgato-render' }),
+    spanProcessors: [spanProcessor]
+  })
+  // sets up the W3C traceparent propagator and async context tracking along with the provider
+  provider.register()
+  // flush whatever is still batched when the process winds down, e.g. at the end of an export
+  process.once('beforeExit', () => { void provider?.shutdown() })
+}
+
+/**
+ * Run `fn` inside a new span that is a child of whichever span is active, recording
+ * any error it throws.
+ */
+export async function withSpan<T> (name: string, attributes: Attributes, fn: (span: Span) => Promise<T> | T) {
+  return await tracer.startActiveSpan(name, { attributes }, async span => {
+    try {
+      return await fn(span)
+    } catch (e: any) {
+      span.recordException(e)
+      span.setStatus({ code: SpanStatusCode.ERROR, message: e.message })
+      throw e
+    } finally {
+      span.end()
+    }
+  })
+}
+
+/**
+ * Headers that carry the active trace context to the API. Empty when tracing is off.
+ */
+export function traceHeaders () {
+  const headers: Record<string, string> = {}
+  propagation.inject(context.active(), headers)
+  return headers
+}
+
+const requestSpans = new WeakMap<FastifyRequest, Span>()
+
+/**
+ * Start the server span for a request, continuing any trace the caller sent us, and run
+ * `next` inside it so that every span created while handling the request is nested under it.
+ *
+ * Meant for an onRequest hook; the span is finished by endRequestSpan in onResponse.
+ */
+export function traceRequest (req: FastifyRequest, next: () => void) {
+  const parent = propagation.extract(context.active(), req.headers)
+  const span = tracer.startSpan(req.routeOptions.url ? `${req.method} ${req.routeOptions.url}` : req.method, {
+    kind: SpanKind.SERVER,
+    attributes: {
+      [ATTR_HTTP_REQUEST_METHOD]: req.method,
+      [ATTR_HTTP_ROUTE]: req.routeOptions.url,
+      [ATTR_URL_PATH]: req.url.split('?')[0],
+      [ATTR_SERVER_ADDRESS]: req.hostname
+    }
+  }, parent)
+  requestSpans.set(req, span)
+  context.with(trace.setSpan(parent, span), next)
+}
+
+export function recordRequestError (req: FastifyRequest, error: Error) {
+  requestSpans.get(req)?.recordException(error)
+}
+
+export function endRequestSpan (req: FastifyRequest, statusCode: number) {
+  const span = requestSpans.get(req)
+  if (!span) return
+  span.setAttribute(ATTR_HTTP_RESPONSE_STATUS_CODE, statusCode)
+  if (statusCode >= 500) span.setStatus({ code: SpanStatusCode.ERROR })
+  span.end()
+  requestSpans.delete(req)
+}
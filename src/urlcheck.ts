@@ -0,0 +1,85 @@
+import { lookup } from 'node:dns'
+import http from 'node:http'
+import https from 'node:https'
+import { BlockList, type LookupFunction, isIP } from 'node:net'
+
+/**
+ * Addresses that aren't on the public internet. Editors can put any URL in a link, and we
+ * must not become a way to probe the render server's own network.
+ */
+const privateAddresses = new BlockList()
+for (const [network, prefix] of [['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]] as const) {
+  privateAddresses.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  privateAddresses.addSubnet(network, prefix, 'ipv6')
+}
+
+/**
+ * IPv4 addresses written as IPv6, like ::ffff:127.0.0.1, are refused outright. They get a list
+ * of their own because BlockList checks every IPv4 address against this range too.
+ */
+const ipv4MappedAddresses = new BlockList()
+ipv4MappedAddresses.addSubnet('::ffff:0:0', 96, 'ipv6')
+
+export function isPrivateAddress (address: string) {
+  if (isIP(address) === 6) return privateAddresses.check(address, 'ipv6') || ipv4MappedAddresses.check(address, 'ipv6')
+  return privateAddresses.check(address, 'ipv4')
+}
+
+/**
+ * DNS lookup for the connection itself that refuses private addresses. Checking in a separate
+ * lookup beforehand isn't enough, since a hostname can resolve somewhere else the second time.
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) callback(err, '')
+    else if (!addresses.length || addresses.some(a => isPrivateAddress(a.address))) callback(new Error('Not a public address'), '')
+    else if (options.all) callback(null, addresses)
+    else callback(null, addresses[0].address, addresses[0].family)
+  })
+}
+
+/**
+ * Send a request and return as soon as the response headers arrive. The body is never read.
+ */
+async function request (url: URL, method: string) {
+  return await new Promise<{ status: number, location?: string }>((resolve, reject) => {
+    const req = (url.protocol === 'https:' ? https : http).request(url, { method, lookup: publicLookup, timeout: 10000 }, resp => {
+      resolve({ status: resp.statusCode ?? 0, location: resp.headers.location })
+      resp.destroy()
+    })
+    req.on('timeout', () => { req.destroy(new Error('Timed out')) })
+    req.on('error', reject)
+    req.end()
+  })
+}
+
+/**
+ * See whether a URL on another website still works. Returns undefined when it does.
+ *
+ * Some servers don't implement HEAD, so those get a GET instead. Redirects are followed one
+ * at a time so that each one can be checked, and nothing on a private network is ever
+ * requested.
+ */
+export async function checkUrl (url: string): Promise<{ status?: number, error?: string } | undefined> {
+  try {
+    let current = new URL(url)
+    for (let redirects = 0; redirects <= 10; redirects++) {
+      if (current.protocol !== 'http:' && current.protocol !== 'https:') return { error: `Unsupported protocol ${current.protocol}` }
+      // connections to an IP address skip the lookup, so those are checked here
+      const host = current.hostname.replace(/^\[|\]$/g, '')
+      if (isIP(host) && isPrivateAddress(host)) return { error: 'Not a public address' }
+      let resp = await request(current, 'HEAD')
+      if (resp.status === 405 || resp.status === 501) resp = await request(current, 'GET')
+      if (resp.status >= 300 && resp.status < 400 && resp.location) {
+        current = new URL(resp.location, current)
+        continue
+      }
+      return resp.status >= 400 ? { status: resp.status } : undefined
+    }
+    return { error: 'Too many redirects' }
+  } catch (e: any) {
+    return { error: e.message }
+  }
+}
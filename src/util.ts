@@ -14,6 +14,18 @@ export function parsePath (path: string) {
   }
 }
 
+/**
+ * Parse a version from a route parameter. `public` means the published version, `latest`
+ * means the newest unpublished version, and anything else must be a version number.
+ * Returns undefined when it's none of those.
+ */
+export function parseVersion (version: string): { published?: true, version?: number } | undefined {
+  if (version === 'public') return { published: true }
+  if (version === 'latest') return {}
+  const num = parseInt(version, 10)
+  return isNaN(num) ? undefined : { version: num }
+}
+
 export function resolvePath (prefix: string | undefined, pagePath: string) {
   const pagenames = pagePath.split('/').filter(isNotBlank)
   prefix = prefix?.replace(/\/+$/, '')
@@ -30,6 +42,11 @@ export function shiftPath (p: string) {
   return '/' + p.split('/').filter(isNotBlank).slice(1).join('/')
 }
 
+// flatten a tree of pages from getNavigation into a list, parents before children
+export function flattenNavigation<T extends { children: T[] }> (pages: T[]): T[] {
+  return pages.flatMap(p => [p, ...flattenNavigation(p.children)])
+}
+
 const TRACKER_PARAMS = new Set([
   'gclid', 'gclsrc', 'gbraid', 'wbraid', 'dclid',
   'fbclid', 'msclkid', 'yclid', 'ttclid', 'twclid', 'li_fat_id',
@@ -53,6 +70,13 @@ export function stripTrackerParams (search: string) {
   return kept.length ? '?' + kept.join('&') : ''
 }
 
+// Strip tracker params from the query of a full or relative URL, leaving the rest of it alone
+export function stripTrackersFromHref (href: string) {
+  const [, before, search, hash] = /^([^?#]*)(\?[^#]*)?(#.*)?$/.exec(href)!
+  if (!search) return href
+  return before + stripTrackerParams(search) + (hash ?? '')
+}
+
 export const jwtSignKey = createSecretKey(process.env.DOSGATO_RENDER_JWT_SECRET!, 'ascii')
 
 export function getFilePath (importURL: string, relativePath: string) {
@@ -0,0 +1,111 @@
+import assert from 'node:assert/strict'
+import { before, describe, it } from 'node:test'
+import { type CSSBlock, type JSBlock, ResourceProvider } from '@dosgato/templating'
+import type * as BundleModule from '../src/bundle.js'
+
+// util.js reads the render secret as soon as it loads
+process.env.DOSGATO_RENDER_JWT_SECRET ??= 'test-secret'
+const { templateRegistry } = await import('../src/registry.js')
+const { bundleBlocks, findBundle } = await import('../src/bundle.js')
+// a second copy of the module stands in for another server instance, one that shares our
+// templates but never rendered the pages that asked for these bundles
+const otherInstanceUrl = '../src/bundle.js?instance=2'
+const otherInstance = await import(otherInstanceUrl) as typeof BundleModule
+
+const cssNames = Array.from({ length: 15 }, (_, i) => `bundle-test-${i}`)
+
+class BundleTestProvider extends ResourceProvider {
+  static cssBlocks = new Map<string, CSSBlock>(cssNames.map((name, i) => [name, { css: `.block-${i} { color: red }` }]))
+  static jsBlocks = new Map<string, JSBlock>([
+    ['bundle-test-module-a', { js: 'window.a = 1' }],
+    ['bundle-test-module-b', { js: 'throw new Error("b")' }],
+    ['bundle-test-import', { js: 'import "./x.js"; window.c = 1' }]
+  ])
+}
+
+function cssEntries (names: string[]) {
+  return names.map(name => ({ name, block: templateRegistry.cssblocks.get(name)! }))
+}
+
+function fileOf (href: string) {
+  const url = new URL(href, 'http://example.com')
+  return { file: url.pathname.split('/').pop()!, blocks: url.searchParams.get('blocks') ?? undefined }
+}
+
+describe('bundles', () => {
+  before(async () => {
+    await templateRegistry.addProvider(BundleTestProvider)
+  })
+
+  it('should combine blocks into one file and find it again by name', () => {
+    const [bundled] = bundleBlocks('css', cssEntries(cssNames.slice(0, 3)))
+    assert.match(bundled.href, /^\/\.resources\/[0-9a-f]{16}\/bundle-[0-9a-f]{16}\.css\?blocks=/)
+    const { file, blocks } = fileOf(bundled.href)
+    const bundle = findBundle(file, blocks)
+    assert.ok(bundle)
+    assert.deepEqual(bundle.blocks, cssNames.slice(0, 3))
+    assert.equal(bundle.integrity, bundled.integrity)
+    assert.match(bundle.code, /\.block-0.*\.block-1.*\.block-2/s)
+  })
+
+  it('should leave a lone block as its own file', () => {
+    const [single] = bundleBlocks('css', cssEntries(cssNames.slice(0, 1)))
+    assert.equal(single.href, templateRegistry.cssblocks.get(cssNames[0])!.href)
+  })
+
+  it('should let another instance rebuild a bundle from its URL', () => {
+    const [bundled] = bundleBlocks('css', cssEntries(cssNames.slice(3, 5)))
+    const { file, blocks } = fileOf(bundled.href)
+    const rebuilt = otherInstance.findBundle(file, blocks)
+    assert.ok(rebuilt)
+    assert.equal(rebuilt.integrity, bundled.integrity)
+  })
+
+  it('should refuse block lists no render produced', () => {
+    const names = cssNames.slice(5, 8)
+    const { file } = fileOf(bundleBlocks('css', cssEntries(names))[0].href)
+    const lists = [
+      [names[1], names[0], names[2]],
+      [names[0], names[0], names[1], names[2]],
+      [names[0], names[1]],
+      [...names, cssNames[8]],
+      [...names, 'not-a-block'],
+      [names[0]]
+    ]
+    for (const list of lists) assert.equal(otherInstance.findBundle(file, list.join(',')), undefined, list.join(','))
+    assert.equal(otherInstance.findBundle(file, undefined), undefined)
+    assert.equal(otherInstance.findBundle('bundle-0123456789abcdef.css', names.join(',')), undefined)
+  })
+
+  it('should only hold on to the most recently used rebuilt bundles', () => {
+    const files: { file: string, blocks?: string }[] = []
+    for (const a of cssNames) {
+      for (const b of cssNames) {
+        if (a !== b) files.push(fileOf(bundleBlocks('css', cssEntries([a, b]))[0].href))
+      }
+    }
+    assert.ok(files.length > 200)
+    const first = otherInstance.findBundle(files[0].file, files[0].blocks)
+    const second = otherInstance.findBundle(files[1].file, files[1].blocks)
+    for (const { file, blocks } of files.slice(2, 200)) {
+      otherInstance.findBundle(file, blocks)
+      // keep using the first one so it isn't the oldest
+      assert.equal(otherInstance.findBundle(files[0].file, undefined), first)
+    }
+    otherInstance.findBundle(files[200].file, files[200].blocks)
+    // without its block list the second one can't be rebuilt, and it was the oldest
+    assert.equal(otherInstance.findBundle(files[1].file, undefined), undefined)
+    assert.notEqual(otherInstance.findBundle(files[1].file, files[1].blocks), second)
+    assert.equal(otherInstance.findBundle(files[0].file, undefined), first)
+  })
+
+  it('should isolate module blocks and never bundle ones with static imports', () => {
+    const jsEntries = ['bundle-test-module-a', 'bundle-test-module-b', 'bundle-test-import'].map(name => ({ name, block: templateRegistry.jsblocks.get(name)! }))
+    const [bundled, alone] = bundleBlocks('js', jsEntries)
+    assert.equal(alone.href, templateRegistry.jsblocks.get('bundle-test-import')!.href)
+    const { file, blocks } = fileOf(bundled.href)
+    const bundle = findBundle(file, blocks)!
+    assert.deepEqual(bundle.blocks, ['bundle-test-module-a', 'bundle-test-module-b'])
+    assert.equal(bundle.code.match(/try \{/g)?.length, 2)
+  })
+})
@@ -0,0 +1,123 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import type { Component, ComponentData } from '@dosgato/templating'
+import { diffComponentTrees, highlightChange, summarizeChanges, unmarkedChangesNotice } from '../src/compare.js'
+
+function data (templateKey: string, props: Record<string, any> = {}, areas?: Record<string, ComponentData[]>): ComponentData {
+  return { templateKey, savedAtVersion: '20240101000000', ...props, ...(areas ? { areas } : {}) }
+}
+
+/**
+ * Just enough of a hydrated component tree for diffComponentTrees
+ */
+function hydrate (componentData: ComponentData, path = ''): Component {
+  const areas = new Map<string, Component[]>()
+  for (const [name, list] of Object.entries(componentData.areas ?? {})) {
+    areas.set(name, list.map((child, i) => hydrate(child, `${path ? path + '.' : ''}areas.${name}.${i}`)))
+  }
+  return { data: componentData, path, areas } as unknown as Component
+}
+
+function diff (from: ComponentData, to: ComponentData) {
+  return diffComponentTrees(hydrate(from), hydrate(to))
+}
+
+describe('summarizeChanges', () => {
+  it('should count insertions, deletions and edits per area', () => {
+    const from = data('page', { title: 'A' }, { main: [data('text', { text: 'a' }), data('text', { text: 'b' }), data('quote', { text: 'c' })] })
+    const to = data('page', { title: 'A' }, { main: [data('text', { text: 'a' }), data('text', { text: 'b2' }), data('image')] })
+    const summary = summarizeChanges(from, to)
+    assert.equal(summary.pageChanged, false)
+    assert.deepEqual(summary.areas, [{ area: 'areas.main', inserted: 1, deleted: 1, changed: 1 }])
+    assert.deepEqual(summary.totals, { inserted: 1, deleted: 1, changed: 1 })
+  })
+
+  it('should count changes inside nested areas against the nested area only', () => {
+    const from = data('page', {}, { main: [data('columns', { layout: '2' }, { left: [data('text', { text: 'a' })] })] })
+    const to = data('page', {}, { main: [data('columns', { layout: '2' }, { left: [data('text', { text: 'a2' })] })] })
+    assert.deepEqual(summarizeChanges(from, to).areas, [{ area: 'areas.main.0.areas.left', inserted: 0, deleted: 0, changed: 1 }])
+  })
+
+  it('should report page property edits but ignore savedAtVersion', () => {
+    assert.equal(summarizeChanges(data('page', { title: 'A' }), data('page', { title: 'B' })).pageChanged, true)
+    assert.equal(summarizeChanges(data('page'), { ...data('page'), savedAtVersion: '20250101000000' }).pageChanged, false)
+  })
+})
+
+describe('diffComponentTrees', () => {
+  it('should find nothing when the versions match', () => {
+    const page = data('page', { title: 'A' }, { main: [data('text', { text: 'a' })] })
+    assert.deepEqual(diff(page, page), [])
+  })
+
+  it('should report an edit with the fields that changed', () => {
+    const from = data('page', {}, { main: [data('text', { text: 'a', align: 'left' })] })
+    const to = data('page', {}, { main: [data('text', { text: 'b', align: 'left' })] })
+    assert.deepEqual(diff(from, to), [{ type: 'edited', templateKey: 'text', path: 'areas.main.0', fromPath: undefined, fields: ['text'] }])
+  })
+
+  it('should report page property edits with an empty path', () => {
+    assert.deepEqual(diff(data('page', { title: 'A' }), data('page', { title: 'B' })), [{ type: 'edited', templateKey: 'page', path: '', fromPath: undefined, fields: ['title'] }])
+  })
+
+  it('should not count components as moved when an insertion shifts them', () => {
+    const a = data('text', { text: 'a' })
+    const b = data('text', { text: 'b' })
+    const from = data('page', {}, { main: [a, b] })
+    const to = data('page', {}, { main: [data('image'), a, b] })
+    assert.deepEqual(diff(from, to), [{ type: 'added', templateKey: 'image', path: 'areas.main.0' }])
+  })
+
+  it('should report components that swapped places as moved', () => {
+    const a = data('text', { text: 'a' })
+    const b = data('text', { text: 'b' })
+    const changes = diff(data('page', {}, { main: [a, b] }), data('page', {}, { main: [b, a] }))
+    assert.equal(changes.length, 1)
+    assert.equal(changes[0].type, 'moved')
+  })
+
+  it('should match an edited component to the most similar one with its template', () => {
+    const from = data('page', {}, { main: [data('text', { title: 'x', text: 'a' }), data('text', { title: 'y', text: 'b' })] })
+    const to = data('page', {}, { main: [data('text', { title: 'x', text: 'a' }), data('text', { title: 'y', text: 'b2' })] })
+    assert.deepEqual(diff(from, to).map(c => [c.type, c.path, c.fields]), [['edited', 'areas.main.1', ['text']]])
+  })
+
+  it('should report a component that went to another area as moved, not removed and added', () => {
+    const quote = data('quote', { text: 'q' })
+    const from = data('page', {}, { main: [quote], sidebar: [] })
+    const to = data('page', {}, { main: [], sidebar: [quote] })
+    assert.deepEqual(diff(from, to), [{ type: 'moved', templateKey: 'quote', path: 'areas.sidebar.0', fromPath: 'areas.main.0' }])
+  })
+
+  it('should report removed components by their path in the older version', () => {
+    const from = data('page', {}, { main: [data('text', { text: 'a' }), data('quote', { text: 'q' })] })
+    const to = data('page', {}, { main: [data('text', { text: 'a' })] })
+    assert.deepEqual(diff(from, to), [{ type: 'removed', templateKey: 'quote', path: 'areas.main.1' }])
+  })
+})
+
+describe('highlightChange', () => {
+  const change = { type: 'edited' as const, templateKey: 'text', path: 'areas.main.0', fields: ['text'] }
+
+  it('should mark the component\'s root element and keep its classes', () => {
+    assert.equal(highlightChange('<div class=\'a "b"\' id="x">hi</div>', change), '<div class="a &quot;b&quot; dg-change dg-change-edited" id="x" data-dg-change="Edited: text">hi</div>')
+    assert.equal(highlightChange('\n<section>hi</section>', change), '\n<section class="dg-change dg-change-edited" data-dg-change="Edited: text">hi</section>')
+  })
+
+  it('should wrap output that doesn\'t start with an element and leave empty output alone', () => {
+    assert.equal(highlightChange('just text', change), '<span class="dg-change dg-change-edited" data-dg-change="Edited: text">just text</span>')
+    assert.equal(highlightChange('  ', change), '  ')
+  })
+})
+
+describe('unmarkedChangesNotice', () => {
+  it('should list page property edits and removed components', () => {
+    const notice = unmarkedChangesNotice([
+      { type: 'edited', templateKey: 'page', path: '', fields: ['title'] },
+      { type: 'edited', templateKey: 'text', path: 'areas.main.0', fields: ['text'] },
+      { type: 'removed', templateKey: 'quote', path: 'areas.main.1' }
+    ], { quote: 'Quote' })
+    assert.equal(notice, '<div class="dg-changes-removed">Page properties edited: title<br>Removed: Quote (areas.main.1)</div>')
+    assert.equal(unmarkedChangesNotice([{ type: 'added', templateKey: 'text', path: 'areas.main.0' }], {}), '')
+  })
+})
@@ -0,0 +1,162 @@
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it, mock } from 'node:test'
+import type { FastifyReply } from 'fastify'
+
+// util.js reads the render secret as soon as it loads
+process.env.DOSGATO_RENDER_JWT_SECRET ??= 'test-secret'
+const { RenderCache, RenderRecorder } = await import('../src/pagecache.js')
+
+type CachedRender = ReturnType<InstanceType<typeof RenderRecorder>['finish']>
+
+/**
+ * A render that waits to finish until the test says so, so that purges can land in the
+ * middle of it
+ */
+function slowRender (body: string, tags: string[]) {
+  const recorder = new RenderRecorder()
+  let finish!: () => void
+  const done = new Promise<CachedRender>(resolve => { finish = () => { resolve(recorder.finish(body, tags)) } })
+  return { render: async () => await done, finish }
+}
+
+function quickRender (body: string, tags: string[], setup?: (recorder: InstanceType<typeof RenderRecorder>) => void) {
+  return async () => {
+    const recorder = new RenderRecorder()
+    setup?.(recorder)
+    return recorder.finish(body, tags)
+  }
+}
+
+function fakeReply () {
+  const headers: Record<string, string> = {}
+  const reply = {
+    type (value: string) { headers['content-type'] = value; return reply },
+    header (key: string, value: any) { headers[key] = String(value); return reply },
+    status () { return reply }
+  }
+  return { reply: reply as unknown as FastifyReply, headers }
+}
+
+describe('render cache', () => {
+  let cache: InstanceType<typeof RenderCache>
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'], now: 1_000_000 })
+    cache = new RenderCache({ freshseconds: 60, staleseconds: 60, maxEntries: 3 })
+  })
+
+  afterEach(() => {
+    mock.timers.reset()
+  })
+
+  it('should serve a stored render without rendering again', async () => {
+    await cache.get('a', quickRender('first', ['page:1']))
+    const entry = await cache.get('a', quickRender('second', ['page:1']))
+    assert.equal(entry.body, 'first')
+    assert.equal(cache.size, 1)
+  })
+
+  it('should drop renders that used a purged record and keep the rest', async () => {
+    await cache.get('a', quickRender('a', ['page:1', 'asset:1']))
+    await cache.get('b', quickRender('b', ['page:2']))
+    mock.timers.tick(10)
+    cache.purgeTags(['asset:1'])
+    assert.equal(cache.size, 1)
+    assert.equal((await cache.get('a', quickRender('a2', ['page:1']))).body, 'a2')
+    assert.equal((await cache.get('b', quickRender('b2', ['page:2']))).body, 'b')
+  })
+
+  it('should refuse to store a render that a purge landed in the middle of', async () => {
+    const slow = slowRender('stale', ['page:1'])
+    const pending = cache.get('a', slow.render)
+    mock.timers.tick(10)
+    cache.purgePages(['1'])
+    slow.finish()
+    assert.equal((await pending).body, 'stale')
+    assert.equal(cache.size, 0)
+  })
+
+  it('should refuse a render that started in the same millisecond as a purge', async () => {
+    const slow = slowRender('stale', ['page:1'])
+    const pending = cache.get('a', slow.render)
+    cache.purgePages(['1'])
+    slow.finish()
+    await pending
+    assert.equal(cache.size, 0)
+  })
+
+  it('should store an in-flight render when an unrelated record is purged', async () => {
+    const slow = slowRender('fine', ['page:1'])
+    const pending = cache.get('a', slow.render)
+    mock.timers.tick(10)
+    cache.purgePages(['2'])
+    cache.purgeSites(['1'])
+    slow.finish()
+    await pending
+    assert.equal(cache.size, 1)
+  })
+
+  it('should refuse to store a render that started before a purge of everything', async () => {
+    const slow = slowRender('stale', ['page:1'])
+    const pending = cache.get('a', slow.render)
+    mock.timers.tick(10)
+    cache.purgeAll()
+    slow.finish()
+    await pending
+    assert.equal(cache.size, 0)
+  })
+
+  it('should still refuse a slow render after the purge it missed has been forgotten', async () => {
+    const slow = slowRender('stale', ['page:1'])
+    const pending = cache.get('a', slow.render)
+    mock.timers.tick(10)
+    cache.purgePages(['1'])
+    // another purge long after forgets the first one
+    mock.timers.tick(10 * 60 * 1000)
+    cache.purgePages(['2'])
+    slow.finish()
+    await pending
+    assert.equal(cache.size, 0)
+    // renders that start afterward are stored normally
+    mock.timers.tick(10)
+    await cache.get('b', quickRender('b', ['page:1']))
+    assert.equal(cache.size, 1)
+  })
+
+  it('should evict the least recently used entry when full', async () => {
+    for (const key of ['a', 'b', 'c']) await cache.get(key, quickRender(key, [`page:${key}`]))
+    await cache.get('a', quickRender('unused', []))
+    await cache.get('d', quickRender('d', ['page:d']))
+    assert.equal(cache.size, 3)
+    assert.equal((await cache.get('a', quickRender('a2', []))).body, 'a')
+    assert.equal((await cache.get('b', quickRender('b2', []))).body, 'b2')
+  })
+
+  it('should not hold on to errors, cookies or private responses', async () => {
+    await cache.get('a', quickRender('error', [], r => { r.status(500) }))
+    await cache.get('b', quickRender('cookie', [], r => { r.header('Set-Cookie', 'a=b') }))
+    await cache.get('c', quickRender('private', [], r => { r.header('Cache-Control', 'private') }))
+    assert.equal(cache.size, 0)
+  })
+
+  it('should build the same key regardless of query order and tracker params', () => {
+    assert.equal(cache.key('WWW.Example.edu', '/about', undefined, '?b=2&utm_source=x&a=1'), 'www.example.edu/about.html?a=1&b=2')
+    assert.equal(cache.key('www.example.edu', '/about', 'rss', ''), 'www.example.edu/about.rss')
+  })
+
+  it('should send every visitor a fresh CSP nonce', async () => {
+    const entry = await cache.get('a', async () => {
+      const recorder = new RenderRecorder()
+      recorder.header('Content-Security-Policy', "script-src 'nonce-abc123'")
+      return recorder.finish('<script nonce="abc123"></script>', [], 'abc123')
+    })
+    const first = fakeReply()
+    const second = fakeReply()
+    const firstBody = cache.send(entry, first.reply)
+    const secondBody = cache.send(entry, second.reply)
+    assert.doesNotMatch(firstBody, /abc123/)
+    assert.notEqual(firstBody, secondBody)
+    const nonce = /nonce="([^"]+)"/.exec(firstBody)![1]
+    assert.equal(first.headers['content-security-policy'], `script-src 'nonce-${nonce}'`)
+  })
+})
@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { load } from 'cheerio'
+import { type SanitizeOptions, policyFor, sanitize, sanitizeHTML } from '../src/sanitize.js'
+
+function clean (html: string, template: SanitizeOptions, raw = false) {
+  const $ = load(html, undefined, false)
+  const policy = policyFor(template, raw)
+  const stripped = policy ? sanitize($, policy) : []
+  return { html: $.html(), stripped }
+}
+
+describe('sanitize', () => {
+  it('should remove javascript: hrefs hidden by whitespace and control characters', () => {
+    // eslint-disable-next-line no-script-url -- these are the URLs being tested
+    for (const href of ['javascript:alert(1)', 'java\tscript:alert(1)', ' \njavascript:alert(1)', 'JAVA&#x0A;SCRIPT:alert(1)', 'java\u0001script:alert(1)']) {
+      const { html, stripped } = sanitizeHTML(`<a href="${href}">link</a>`)
+      assert.equal(html, '<a>link</a>')
+      assert.deepEqual(stripped, ['href URL on <a>'])
+    }
+  })
+
+  it('should keep relative URLs and allowed schemes', () => {
+    const { html, stripped } = sanitizeHTML('<a href="/about">a</a><a href="mailto:a@example.com">b</a><a href="https://example.com">c</a>')
+    assert.equal(html, '<a href="/about">a</a><a href="mailto:a@example.com">b</a><a href="https://example.com">c</a>')
+    assert.deepEqual(stripped, [])
+  })
+
+  it('should remove a srcset when any of its candidates has a disallowed scheme', () => {
+    assert.equal(sanitizeHTML('<img src="/a.png" srcset="/a.png 1x, javascript:alert(1) 2x" alt="">').html, '<img src="/a.png" alt="">')
+    assert.equal(sanitizeHTML('<img src="/a.png" srcset="/a.png 1x, https://example.com/b.png 2x" alt="">').html, '<img src="/a.png" srcset="/a.png 1x, https://example.com/b.png 2x" alt="">')
+  })
+
+  it('should remove event handler attributes even when a policy allows them', () => {
+    const { html, stripped } = sanitizeHTML('<p onclick="alert(1)" ONMOUSEOVER="alert(2)" class="x">text</p>', { allowAttributes: { p: ['onclick'] } })
+    assert.equal(html, '<p class="x">text</p>')
+    assert.equal(stripped.length, 2)
+  })
+
+  it('should keep data- and aria- attributes', () => {
+    assert.equal(sanitizeHTML('<span data-x="1" aria-label="y">z</span>').html, '<span data-x="1" aria-label="y">z</span>')
+  })
+
+  it('should drop dangerous elements along with their content', () => {
+    const { html, stripped } = sanitizeHTML('<p>a<script>alert(1)</script><style>p { color: red }</style><iframe src="https://example.com"></iframe><svg><a href="#">x</a></svg>b</p>')
+    assert.equal(html, '<p>ab</p>')
+    assert.deepEqual(new Set(stripped), new Set(['<script>', '<style>', '<iframe>', '<svg>']))
+  })
+
+  it('should unwrap other disallowed elements and keep their content', () => {
+    assert.equal(sanitizeHTML('<p><font color="red">red <b>bold</b></font></p>').html, '<p>red <b>bold</b></p>')
+  })
+
+  it('should add noopener to links that open a new window', () => {
+    assert.equal(sanitizeHTML('<a href="/a" target="_blank" rel="nofollow">a</a>').html, '<a href="/a" target="_blank" rel="nofollow noopener">a</a>')
+  })
+
+  it('should merge allowTags and denyTags into the defaults', () => {
+    const template = { sanitizePolicy: { allowTags: ['ABBR', 'dialog'], denyTags: ['img', 'EM'] } }
+    assert.equal(clean('<dialog><em>a</em><img src="/a.png" alt=""><abbr>b</abbr><strong>c</strong></dialog>', template).html, '<dialog>a<abbr>b</abbr><strong>c</strong></dialog>')
+  })
+
+  it('should merge allowed and denied attributes into the defaults', () => {
+    const template = { sanitizePolicy: { allowAttributes: { div: ['hidden'] }, denyAttributes: { '*': ['id'] } } }
+    assert.equal(clean('<div hidden id="a" class="b">c</div>', template).html, '<div hidden="" class="b">c</div>')
+  })
+
+  it('should replace the allowed schemes when a policy sets them', () => {
+    const template = { sanitizePolicy: { allowSchemes: ['https', 'ftp:'] } }
+    assert.equal(clean('<a href="ftp://example.com">a</a><a href="http://example.com">b</a>', template).html, '<a href="ftp://example.com">a</a><a>b</a>')
+  })
+
+  it('should only apply rawHTMLTrust to raw HTML', () => {
+    const template: SanitizeOptions = { rawHTMLTrust: 'trusted' }
+    assert.equal(clean('<p>a<script>b</script></p>', template).html, '<p>a</p>')
+    assert.equal(clean('<p>a<script>b</script></p>', template, true).html, '<p>a<script>b</script></p>')
+  })
+
+  it('should allow embedded media at the embed level', () => {
+    const template: SanitizeOptions = { rawHTMLTrust: 'embed' }
+    const html = '<iframe src="https://www.youtube.com/embed/x" allowfullscreen onload="alert(1)"></iframe><video src="/a.mp4" controls></video>'
+    assert.equal(clean(html, template, true).html, '<iframe src="https://www.youtube.com/embed/x" allowfullscreen=""></iframe><video src="/a.mp4" controls=""></video>')
+    assert.equal(clean(html, template).html, '')
+    assert.equal(clean('<iframe src="javascript:alert(1)"></iframe>', template, true).html, '<iframe></iframe>')
+  })
+
+  it('should sanitize raw HTML like rich text by default', () => {
+    assert.equal(clean('<iframe src="https://example.com"></iframe><p>a</p>', {}, true).html, '<p>a</p>')
+  })
+
+  it('should cache merged policies per template and level', () => {
+    const template: SanitizeOptions = { rawHTMLTrust: 'embed' }
+    assert.equal(policyFor(template), policyFor(template))
+    assert.notEqual(policyFor(template), policyFor(template, true))
+    assert.equal(policyFor({ rawHTMLTrust: 'trusted' }, true), undefined)
+  })
+})
@@ -15,23 +15,32 @@ import { PageTemplate2 } from './pages/keyp2.js'
 import { PageTemplate3 } from './pages/keyp3.js'
 import { PageTemplate4 } from './pages/keyp4.js'
 
+const templates = [
+  PageTemplate1,
+  PageTemplate2,
+  PageTemplate3,
+  PageTemplate4,
+  LinkTemplate,
+  PanelTemplate,
+  QuoteTemplate,
+  RichTextTemplate,
+  HorizontalRuleTemplate,
+  TextImageTemplate,
+  ColumnLayoutTemplate,
+  DocumentsTemplate,
+  TeamTemplate,
+  TeamMemberTemplate
+]
+
 const server = new RenderingServer()
-await server.start({
-  templates: [
-    PageTemplate1,
-    PageTemplate2,
-    PageTemplate3,
-    PageTemplate4,
-    LinkTemplate,
-    PanelTemplate,
-    QuoteTemplate,
-    RichTextTemplate,
-    HorizontalRuleTemplate,
-    TextImageTemplate,
-    ColumnLayoutTemplate,
-    DocumentsTemplate,
-    TeamTemplate,
-    TeamMemberTemplate
-  ]
-})
-console.info('service started with resourceversion =', resourceversion)
+if (process.argv[2] === 'export') {
+  // npm run export -- https://www.example.edu/ ./export rss
+  const [launchUrl, outDir, ...variations] = process.argv.slice(3)
+  const result = await server.exportSite({ templates, launchUrl, outDir, variations })
+  console.info(`exported ${result.pages} pages and ${result.files} files to ${outDir}`)
+  for (const error of result.errors) console.warn(error)
+  process.exit(result.errors.length > 0 ? 1 : 0)
+} else {
+  await server.start({ templates })
+  console.info('service started with resourceversion =', resourceversion)
+}
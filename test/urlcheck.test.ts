@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict'
+import { type Server, createServer } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { after, before, describe, it } from 'node:test'
+import { checkUrl, isPrivateAddress } from '../src/urlcheck.js'
+
+describe('isPrivateAddress', () => {
+  it('should refuse loopback, link-local and private ranges', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '169.254.169.254', '172.16.0.1', '172.31.255.255', '192.168.1.1', '100.64.0.1', '0.0.0.0', '224.0.0.1', '::1', '::', 'fe80::1', 'fd00::1', '::ffff:127.0.0.1', '::ffff:8.8.8.8', '64:ff9b::a00:1']) {
+      assert.equal(isPrivateAddress(address), true, address)
+    }
+  })
+
+  it('should allow public addresses', () => {
+    for (const address of ['8.8.8.8', '172.32.0.1', '192.169.0.1', '2001:4860:4860::8888']) {
+      assert.equal(isPrivateAddress(address), false, address)
+    }
+  })
+})
+
+describe('checkUrl', () => {
+  let server: Server
+  let port: number
+  let requests = 0
+
+  before(async () => {
+    server = createServer((req, res) => {
+      requests++
+      res.writeHead(302, { location: 'http://169.254.169.254/' }).end()
+    })
+    await new Promise<void>(resolve => { server.listen(0, '127.0.0.1', resolve) })
+    port = (server.address() as AddressInfo).port
+  })
+
+  after(async () => {
+    await new Promise(resolve => { server.close(resolve) })
+  })
+
+  it('should never connect to a private address', async () => {
+    for (const url of [`http://127.0.0.1:${port}/`, `http://[::ffff:127.0.0.1]:${port}/`, `http://2130706433:${port}/`, `http://localhost:${port}/`]) {
+      assert.deepEqual(await checkUrl(url), { error: 'Not a public address' }, url)
+    }
+    assert.equal(requests, 0)
+  })
+
+  it('should only check web URLs', async () => {
+    assert.deepEqual(await checkUrl('ftp://example.com/file'), { error: 'Unsupported protocol ftp:' })
+    assert.deepEqual(await checkUrl('not a url'), { error: 'Invalid URL' })
+  })
+})